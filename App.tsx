@@ -1,123 +1,571 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { DifficultyLevel, Board, GameStatus } from './types';
-import { DIFFICULTIES } from './constants';
-import { createEmptyBoard, generateGuaranteedBoard, floodFill, findHint } from './utils/gameLogic';
-import { Cell } from './components/Cell';
-import { getHintFromGemini } from './services/geminiService';
+import React, { useState, useEffect, useCallback, useRef, useMemo, useSyncExternalStore } from 'react';
+import {
+  DifficultyLevel, DifficultyConfig, GameStatus, Hint, AiHint, DailyRecord, Settings, GameRecord, TapMode,
+  ClickCounts, SavedGame, Topology, LogicRating, GameVariant
+} from './types';
+import {
+  DIFFICULTIES, RULE_NAMES, CHORD_GESTURE_NAMES, TOPOLOGY_NAMES, TOPOLOGY_DESCRIPTIONS, AUTO_SOLVE_STEP_MS, LOGIC_RATING_NAMES,
+  LOGIC_RATING_DESCRIPTIONS, VARIANT_NAMES, VARIANT_DESCRIPTIONS
+} from './constants';
+import {
+  validateDifficulty, findPreset, rateBoard, calculate3BV, calculateSolved3BV, classifyClick, tallyClick, computePerformance,
+  EMPTY_CLICK_COUNTS
+} from './utils/gameLogic';
+import { EngineEvent, GameEngine } from './utils/gameEngine';
+import { nextBotMove } from './utils/autoplayer';
+import { computeMineProbabilities } from './utils/probability';
+import {
+  loadCustomDifficulty, saveCustomDifficulty, loadDailyRecord, saveDailyRecord, loadSettings, saveSettings,
+  loadGameRecords, saveGameRecords, upsertGameRecord, loadAutosave, saveAutosave, clearAutosave,
+  loadSaveSlots, upsertSaveSlot, deleteSaveSlot
+} from './utils/storage';
+import { mineIndices, restoreSavedGame } from './utils/savedGame';
+import { importBoardFile, parseBoardText, parseMbf } from './utils/boardFile';
+import { formatDuration, mergeHistory } from './utils/stats';
+import { DailyChallenge, dailyChallenge } from './utils/daily';
+import { formatSeed, randomSeed } from './utils/random';
+import { SharedGame, SHARE_CODE_PARAM, decodeShareCode, encodeShareCode, shareLink } from './utils/shareCode';
+import { BoardGrid, BOARD_KEYS } from './components/BoardGrid';
+import { CustomDifficultyForm } from './components/CustomDifficultyForm';
+import { ShareBar } from './components/ShareBar';
+import { ReplayViewer } from './components/ReplayViewer';
+import { SettingsPanel } from './components/SettingsPanel';
+import { StatsPanel } from './components/StatsPanel';
+import { SavePanel } from './components/SavePanel';
+import { BoardFileBar } from './components/BoardFileBar';
+import { PuzzleMode } from './components/PuzzleMode';
+import { VersusMode } from './components/VersusMode';
+import { Countdown, ElapsedTime, PerformanceBar } from './components/PerformanceBar';
+import { HintResult, hintProviderFor, requestHint } from './services/hintProvider';
+import { generateBoardInWorker } from './services/generatorService';
 
 const App: React.FC = () => {
   const [difficulty, setDifficulty] = useState<DifficultyLevel>(DifficultyLevel.BEGINNER);
-  const [board, setBoard] = useState<Board>([]);
-  const [status, setStatus] = useState<GameStatus>(GameStatus.IDLE);
-  const [flags, setFlags] = useState(0);
-  const [timer, setTimer] = useState(0);
+  const [engine, setEngine] = useState(() => new GameEngine({ ...DIFFICULTIES[DifficultyLevel.BEGINNER], seed: randomSeed() }));
+  const [clickCounts, setClickCounts] = useState<ClickCounts>(EMPTY_CLICK_COUNTS);
   const [hintMessage, setHintMessage] = useState<string | null>(null);
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [hint, setHint] = useState<Hint | null>(null);
+  const [aiHint, setAiHint] = useState<AiHint | null>(null);
+  const [hintStep, setHintStep] = useState(0);
+  const [customConfig, setCustomConfig] = useState<DifficultyConfig>(
+    () => loadCustomDifficulty() ?? DIFFICULTIES[DifficultyLevel.CUSTOM]
+  );
+  const [generationProgress, setGenerationProgress] = useState<{ attempt: number; maxAttempts: number } | null>(null);
+  const [dailyMode, setDailyMode] = useState(false);
+  const [daily, setDaily] = useState<DailyChallenge | null>(null);
+  const [dailyRecord, setDailyRecord] = useState<DailyRecord | null>(null);
+  const [showReplay, setShowReplay] = useState(false);
+  const [settings, setSettings] = useState<Settings>(loadSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [records, setRecords] = useState<GameRecord[]>(loadGameRecords);
+  const [showStats, setShowStats] = useState(false);
+  const [tapMode, setTapMode] = useState<TapMode>('DIG');
+  const [saveSlots, setSaveSlots] = useState<SavedGame[]>(loadSaveSlots);
+  const [showSaves, setShowSaves] = useState(false);
+  // Imported boards have no seed to share and may not be solvable without guessing
+  const [imported, setImported] = useState(false);
+  const [mayRequireGuessing, setMayRequireGuessing] = useState(false);
+  // Puzzles and versus play take over the whole page while open
+  const [screen, setScreen] = useState<'GAME' | 'PUZZLES' | 'VERSUS'>('GAME');
+  const [topology, setTopology] = useState<Topology>('SQUARE');
+  // Null leaves the logic rating of generated boards to chance
+  const [logicRating, setLogicRating] = useState<LogicRating | null>(null);
+  const [variant, setVariant] = useState<GameVariant>('CLASSIC');
+  const [autoSolving, setAutoSolving] = useState(false);
+  // Like undo, letting the bot play keeps the game off the leaderboard
+  const [autoSolved, setAutoSolved] = useState(false);
   
-  const timerRef = useRef<number | null>(null);
-  const config = DIFFICULTIES[difficulty];
+  const hintRequestRef = useRef<AbortController | null>(null);
+  // A shared game waiting for the difficulty switch it requested to take effect
+  const pendingShareRef = useRef<SharedGame | null>(null);
+  // Likewise a saved game waiting to be resumed
+  const pendingRestoreRef = useRef<SavedGame | null>(null);
+  const gameIdRef = useRef<string | null>(null);
+  // The game clock pauses while another screen is open and resumes on return
+  const pausedForScreenRef = useRef(false);
+  const config = difficulty === DifficultyLevel.CUSTOM ? customConfig : DIFFICULTIES[difficulty];
 
-  // Explicitly set return type to Board to maintain optional properties as optional and avoid inference errors
-  const clearHints = (currentBoard: Board): Board => {
-    return currentBoard.map(row => row.map(cell => ({ ...cell, isHinted: false, hintType: null })));
-  };
+  const { board, status, flags, hits, timeLimitMs, seed, startCell, initialBoard, actions, assisted, canUndo, canRedo } =
+    useSyncExternalStore(engine.subscribe, engine.getState);
+  const stopwatch = engine.stopwatch;
+  // A lost game with lives to spare can only have run out of time
+  const timedOut = status === GameStatus.LOST && hits < engine.lives;
+  // Flagging is off in the no-flag variant, and taps on hidden cells always dig
+  const canFlag = variant !== 'NO_FLAG';
+  const tap: TapMode = canFlag ? tapMode : 'DIG';
+
+  // Only ever touches state setters, so it is safe to hand to engines that outlive a render
+  const handleEngineEvent = useCallback((event: EngineEvent) => {
+    switch (event.type) {
+      case 'PROGRESS':
+        setGenerationProgress({ attempt: event.attempt, maxAttempts: event.maxAttempts });
+        break;
+      case 'STARTED':
+        gameIdRef.current = `${Date.now().toString(36)}-${event.seed.toString(36)}`;
+        setClickCounts(tallyClick(EMPTY_CLICK_COUNTS, { kind: 'LEFT', wasted: false }));
+        break;
+      case 'MOVE':
+        // Any move other than the hint itself leaves the hint behind
+        if (event.action.type === 'HINT') break;
+        setHintMessage(null);
+        setHint(null);
+        setAiHint(null);
+        if (event.action.type === 'UNDO' || event.action.type === 'REDO') setShowReplay(false);
+        break;
+    }
+  }, []);
 
   const initGame = useCallback(() => {
-    setBoard(createEmptyBoard(config.rows, config.cols));
-    setStatus(GameStatus.IDLE);
-    setFlags(0);
-    setTimer(0);
+    const challenge = dailyMode && difficulty !== DifficultyLevel.CUSTOM ? dailyChallenge(new Date(), difficulty) : null;
+    const record = challenge && loadDailyRecord(challenge.key);
+    setDaily(challenge);
+    setDailyRecord(record);
+
+    // A shared board opens at its start cell right away; the daily one waits for the
+    // player's first click, and once played stays locked
+    const shared = pendingShareRef.current;
+    pendingShareRef.current = null;
+    const fixed = shared ?? (challenge && !record ? challenge.game : null);
+    const saved = pendingRestoreRef.current;
+    pendingRestoreRef.current = null;
+    const restored = saved && restoreSavedGame(saved);
+    const gameSeed = fixed ? fixed.seed : saved ? saved.seed : randomSeed();
+
+    const next = new GameEngine(
+      {
+        rows: config.rows, cols: config.cols, mines: config.mines, seed: gameSeed, topology,
+        rating: fixed ? fixed.rating : saved ? saved.rating : logicRating ?? undefined, variant
+      },
+      { generate: generateBoardInWorker, undoable: !challenge }
+    );
+    next.subscribe(handleEngineEvent);
+    // The engine being replaced may still be generating; it must not report back
+    setEngine(prev => {
+      prev.dispose();
+      return next;
+    });
+    setClickCounts(EMPTY_CLICK_COUNTS);
     setHintMessage(null);
-    if (timerRef.current) clearInterval(timerRef.current);
-  }, [config]);
+    setHint(null);
+    setAiHint(null);
+    setShowReplay(false);
+    setImported(false);
+    setMayRequireGuessing(false);
+    setGenerationProgress(null);
+    setAutoSolving(false);
+    setAutoSolved(false);
+
+    if (shared) next.start(shared.startX, shared.startY);
+    else if (saved && restored) {
+      next.resume({ ...restored, startCell: saved.startCell, actions: saved.actions, elapsedMs: saved.elapsedMs, assisted: saved.assisted });
+      setClickCounts(saved.clicks);
+      setImported(saved.imported ?? false);
+      setMayRequireGuessing(saved.mayRequireGuessing ?? false);
+      gameIdRef.current = saved.gameId;
+    }
+  }, [config, topology, logicRating, variant, dailyMode, difficulty, handleEngineEvent]);
+
+  const applyCustomConfig = (next: DifficultyConfig) => {
+    saveCustomDifficulty(next);
+    setCustomConfig(next);
+  };
 
   useEffect(() => {
     initGame();
   }, [initGame]);
 
-  const checkWin = useCallback((currentBoard: Board) => {
-    let revealedCount = 0;
-    currentBoard.forEach(row => row.forEach(cell => {
-      if (cell.isRevealed) revealedCount++;
-    }));
+  useEffect(() => () => engine.dispose(), [engine]);
 
-    const totalCells = config.rows * config.cols;
-    if (revealedCount === totalCells - config.mines) {
-      setStatus(GameStatus.WON);
-      clearInterval(timerRef.current!);
+  // Anything that starts over asks first while a game is in progress
+  const confirmDiscard = (): boolean => {
+    if (status !== GameStatus.PLAYING) return true;
+    if (!window.confirm('当前对局还没有结束，确定要放弃吗？如需保留，请先存入存档。')) return false;
+    clearAutosave();
+    return true;
+  };
+
+  // Switches board size, or restarts right away when nothing changes and initGame would not re-run
+  const switchDifficulty = (
+    level: DifficultyLevel,
+    next: DifficultyConfig,
+    nextTopology: Topology,
+    nextRating: LogicRating | null,
+    nextVariant: GameVariant
+  ) => {
+    const unchanged = !dailyMode && difficulty === level && topology === nextTopology && logicRating === nextRating
+      && variant === nextVariant && next.rows === config.rows && next.cols === config.cols && next.mines === config.mines;
+    setDailyMode(false);
+    setTopology(nextTopology);
+    setLogicRating(nextRating);
+    setVariant(nextVariant);
+    if (unchanged) {
+      initGame();
+    } else {
+      // The size of a loaded game, which may be an imported board no generator could make, is never stored
+      if (level === DifficultyLevel.CUSTOM) {
+        if (pendingRestoreRef.current) setCustomConfig(next);
+        else applyCustomConfig(next);
+      }
+      setDifficulty(level);
     }
-  }, [config]);
+  };
 
-  const handleCellClick = (x: number, y: number) => {
-    if (status === GameStatus.WON || status === GameStatus.LOST || board[x][y].isFlagged) return;
+  const loadSharedGame = (code: string): string | null => {
+    const shared = decodeShareCode(code);
+    if (!shared) return '对局码格式不正确。';
+    const error = validateDifficulty(shared.rows, shared.cols, shared.mines);
+    if (error) return error;
+    if (!confirmDiscard()) return '已取消。';
 
-    // Explicitly type newBoard as Board to avoid incorrect inference of required optional fields
-    let newBoard: Board = clearHints([...board.map(row => [...row])]);
-    setHintMessage(null);
+    pendingShareRef.current = shared;
+    const preset = findPreset(shared.rows, shared.cols, shared.mines);
+    switchDifficulty(
+      preset ?? DifficultyLevel.CUSTOM,
+      preset ? DIFFICULTIES[preset] : { ...customConfig, rows: shared.rows, cols: shared.cols, mines: shared.mines },
+      shared.topology ?? 'SQUARE',
+      shared.rating ?? null,
+      variant
+    );
+    return null;
+  };
+
+  const loadSavedGame = (saved: SavedGame): string | null => {
+    if (!restoreSavedGame(saved)) return '存档已损坏，无法恢复。';
+    if (!confirmDiscard()) return '已取消。';
+    pendingRestoreRef.current = saved;
+    switchDifficulty(
+      saved.difficulty,
+      saved.difficulty === DifficultyLevel.CUSTOM ? saved.config : DIFFICULTIES[saved.difficulty],
+      saved.topology ?? 'SQUARE',
+      saved.rating ?? null,
+      saved.variant ?? 'CLASSIC'
+    );
+    return null;
+  };
 
-    if (status === GameStatus.IDLE) {
-      setStatus(GameStatus.GENERATING);
-      setTimeout(() => {
-        newBoard = generateGuaranteedBoard(config.rows, config.cols, config.mines, x, y);
-        floodFill(newBoard, x, y);
-        setBoard(newBoard);
-        setStatus(GameStatus.PLAYING);
-        timerRef.current = window.setInterval(() => {
-          setTimer(prev => prev + 1);
-        }, 1000);
-      }, 0);
+  // Daily challenges are one-shot and blitz games race the clock, so neither is ever saved
+  const captureGame = (name: string): SavedGame | null => {
+    if (status !== GameStatus.PLAYING || daily || variant === 'BLITZ' || !initialBoard || !startCell || !gameIdRef.current) return null;
+    return {
+      name,
+      savedAt: new Date().toISOString(),
+      difficulty,
+      config,
+      seed,
+      startCell,
+      mines: mineIndices(initialBoard),
+      actions,
+      elapsedMs: stopwatch.ms,
+      clicks: clickCounts,
+      assisted: assisted || autoSolved,
+      gameId: gameIdRef.current,
+      imported,
+      mayRequireGuessing,
+      topology,
+      rating: engine.rating,
+      variant
+    };
+  };
+
+  const importBoard = async (file: File): Promise<string | null> => {
+    let game: SavedGame;
+    try {
+      const parsed = file.name.toLowerCase().endsWith('.mbf')
+        ? parseMbf(new Uint8Array(await file.arrayBuffer()))
+        : parseBoardText(await file.text());
+      game = importBoardFile(parsed);
+    } catch (error) {
+      return (error as Error).message;
+    }
+    return loadSavedGame(game);
+  };
+
+  const saveToSlot = (name: string) => {
+    const game = captureGame(name);
+    if (game) setSaveSlots(upsertSaveSlot(game));
+  };
+
+  useEffect(() => {
+    const code = new URLSearchParams(window.location.search).get(SHARE_CODE_PARAM);
+    if (code) {
+      loadSharedGame(code);
       return;
     }
+    const saved = loadAutosave();
+    if (saved && loadSavedGame(saved)) clearAutosave();
+    // Only the URL the page was opened with is honoured
+  }, []);
+
+  // Every move is autosaved; a finished game no longer needs it
+  useEffect(() => {
+    const game = captureGame('');
+    if (game) saveAutosave(game);
+    else if (status === GameStatus.WON || status === GameStatus.LOST) clearAutosave();
+  }, [actions, status]);
+
+  // Moves are saved as they happen; this also keeps the time spent since the last one
+  useEffect(() => {
+    const onPageHide = () => {
+      const game = captureGame('');
+      if (game) saveAutosave(game);
+    };
+    window.addEventListener('pagehide', onPageHide);
+    return () => window.removeEventListener('pagehide', onPageHide);
+  });
+
+  // A hint for an earlier position is worthless; drop any request still in flight
+  useEffect(() => {
+    hintRequestRef.current?.abort();
+  }, [board]);
+
+  // Imported boards that need guessing have no meaningful rating
+  const logicScore = useMemo(
+    () => (initialBoard && startCell && !mayRequireGuessing ? rateBoard(initialBoard, startCell.x, startCell.y, topology) : null),
+    [initialBoard, startCell, mayRequireGuessing, topology]
+  );
+  const totalBbbv = useMemo(() => (initialBoard ? calculate3BV(initialBoard, topology) : 0), [initialBoard, topology]);
+  const solvedBbbv = useMemo(() => (initialBoard ? calculateSolved3BV(board, topology) : 0), [initialBoard, board, topology]);
+  const score = computePerformance(solvedBbbv, clickCounts, stopwatch.ms);
+
+  // Screen readers cannot see the banners and hint panel, so both are mirrored into live regions
+  const statusAnnouncement =
+    status === GameStatus.WON ? `胜利！用时 ${formatDuration(stopwatch.ms)}，效率 ${Math.round(score.efficiency * 100)}%。`
+    : status === GameStatus.LOST ? (timedOut ? '时间到，游戏结束。' : '踩到地雷了，游戏结束。')
+    : status === GameStatus.FAILED ? '无法生成无需猜测的棋盘。'
+    : status === GameStatus.GENERATING ? '正在生成棋盘。'
+    : '';
+  const hintAnnouncement = hint ? hint.steps[hintStep]
+    : aiHint ? `AI ${aiHint.verdict === 'VERIFIED' ? '已验证' : '猜测'}：${aiHint.action === 'REVEAL' ? '揭开' : '插旗'}第${aiHint.x + 1}行第${aiHint.y + 1}列。${aiHint.reasoning}`
+    : hintMessage ?? '';
+
+  // Record the daily attempt as soon as it starts, so reloading cannot re-roll it
+  useEffect(() => {
+    if (!daily) return;
+    let next: DailyRecord | null = null;
+    if (status === GameStatus.PLAYING && !dailyRecord) next = { outcome: 'PLAYING' };
+    if (status === GameStatus.WON && dailyRecord?.outcome === 'PLAYING') next = { outcome: 'WON', timeMs: stopwatch.ms };
+    if (status === GameStatus.LOST && dailyRecord?.outcome === 'PLAYING') next = { outcome: 'LOST' };
+    if (next) {
+      saveDailyRecord(daily.key, next);
+      setDailyRecord(next);
+    }
+  }, [status]);
 
-    if (newBoard[x][y].isMine) {
-      newBoard[x][y].isRevealed = true;
-      setStatus(GameStatus.LOST);
-      clearInterval(timerRef.current!);
-      setBoard(newBoard);
+  // Save every finished game; a loss that is undone and played on replaces its record
+  useEffect(() => {
+    if ((status !== GameStatus.WON && status !== GameStatus.LOST) || !initialBoard || !gameIdRef.current) return;
+    const record: GameRecord = {
+      id: gameIdRef.current,
+      difficulty,
+      rows: config.rows,
+      cols: config.cols,
+      mines: config.mines,
+      outcome: status,
+      timeMs: stopwatch.ms,
+      bbbv: totalBbbv,
+      clicks: clickCounts.left + clickCounts.right + clickCounts.chord,
+      hintsUsed: actions.filter(a => a.type === 'HINT').length,
+      assisted: assisted || autoSolved,
+      daily: daily !== null,
+      seed,
+      finishedAt: new Date().toISOString(),
+      topology,
+      variant,
+      imported
+    };
+    setRecords(upsertGameRecord(record));
+  }, [status]);
+
+  const importRecords = (imported: GameRecord[]) => {
+    const merged = mergeHistory(records, imported);
+    saveGameRecords(merged);
+    setRecords(merged);
+  };
+
+  const shareCode = startCell && !imported
+    ? encodeShareCode({ rows: config.rows, cols: config.cols, mines: config.mines, startX: startCell.x, startY: startCell.y, seed, topology, rating: engine.rating })
+    : null;
+
+  const probabilities = useMemo(
+    () => (showHeatmap && status === GameStatus.PLAYING ? computeMineProbabilities(board, config.mines, topology) : null),
+    [showHeatmap, status, board, config, topology]
+  );
+
+  const updateSettings = (next: Settings) => {
+    saveSettings(next);
+    setSettings(next);
+  };
+
+  const handleCellClick = (x: number, y: number) => {
+    if (board[x][y].isRevealed) {
+      if (settings.chordGesture === 'CLICK') engine.dispatch({ type: 'CHORD', x, y });
       return;
     }
+    // The first click on a daily board opens it at the fixed start cell, wherever it lands
+    if (daily && (status === GameStatus.IDLE || status === GameStatus.FAILED)) {
+      if (status === GameStatus.IDLE && !dailyRecord) engine.start(daily.game.startX, daily.game.startY);
+      return;
+    }
+    engine.dispatch({ type: 'REVEAL', x, y });
+  };
+
+  // The bot makes one move per step, reading the board the previous one left
+  useEffect(() => {
+    if (!autoSolving) return;
+    if (status !== GameStatus.PLAYING) {
+      setAutoSolving(false);
+      return;
+    }
+    const id = window.setTimeout(() => {
+      const move = nextBotMove(board, config.mines, topology, canFlag);
+      if (move) engine.dispatch({ type: move.type, x: move.x, y: move.y });
+      else setAutoSolving(false);
+    }, AUTO_SOLVE_STEP_MS);
+    return () => clearTimeout(id);
+  }, [autoSolving, board, status, engine]);
 
-    floodFill(newBoard, x, y);
-    setBoard(newBoard);
-    checkWin(newBoard);
+  const toggleAutoSolve = () => {
+    if (!autoSolving) setAutoSolved(true);
+    setAutoSolving(prev => !prev);
   };
 
-  const handleRightClick = (e: React.MouseEvent, x: number, y: number) => {
+  const undo = () => engine.dispatch({ type: 'UNDO' });
+  const redo = () => engine.dispatch({ type: 'REDO' });
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || screen !== 'GAME') return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) { e.preventDefault(); undo(); }
+      else if (key === 'y' || (key === 'z' && e.shiftKey)) { e.preventDefault(); redo(); }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // Only clicks the player makes on the board count towards efficiency; executing a hint does not
+  const countClick = (x: number, y: number, gesture: 'REVEAL' | 'FLAG' | 'CHORD') => {
+    if (status !== GameStatus.PLAYING) return;
+    setClickCounts(prev => tallyClick(prev, classifyClick(board, x, y, gesture, topology)));
+  };
+
+  const boardReveal = (x: number, y: number) => {
+    countClick(x, y, board[x][y].isRevealed && settings.chordGesture === 'CLICK' ? 'CHORD' : 'REVEAL');
+    handleCellClick(x, y);
+  };
+
+  // In flag mode a tap on a hidden cell flags it; revealed numbers still chord
+  const boardClick = (x: number, y: number) => {
+    if (tap === 'FLAG' && !board[x][y].isRevealed) boardFlag(x, y);
+    else boardReveal(x, y);
+  };
+
+  // A long press does whatever a tap does not
+  const boardLongPress = (x: number, y: number) => {
+    if (board[x][y].isRevealed) boardChord(x, y);
+    else if (tap === 'FLAG') boardReveal(x, y);
+    else boardFlag(x, y);
+  };
+
+  const boardRightClick = (e: React.MouseEvent, x: number, y: number) => {
     e.preventDefault();
-    if (status !== GameStatus.PLAYING && status !== GameStatus.IDLE) return;
-    if (board[x][y].isRevealed) return;
+    boardFlag(x, y);
+  };
 
-    const newBoard = clearHints([...board.map(row => [...row])]);
-    setHintMessage(null);
-    
-    const isNowFlagged = !newBoard[x][y].isFlagged;
-    newBoard[x][y].isFlagged = isNowFlagged;
-    setBoard(newBoard);
-    setFlags(prev => isNowFlagged ? prev + 1 : prev - 1);
+  const boardChord = (x: number, y: number) => {
+    countClick(x, y, 'CHORD');
+    engine.dispatch({ type: 'CHORD', x, y });
+  };
+
+  const boardFlag = (x: number, y: number) => {
+    if (!canFlag) return;
+    countClick(x, y, 'FLAG');
+    engine.dispatch({ type: 'FLAG', x, y });
   };
 
   const triggerHint = async () => {
     if (status !== GameStatus.PLAYING) return;
-    
-    const hint = findHint(board);
-    if (hint) {
-      const newBoard = [...board.map(row => [...row])];
-      newBoard[hint.x][hint.y].isHinted = true;
-      newBoard[hint.x][hint.y].hintType = hint.type;
-      setBoard(newBoard);
-      setHintMessage(hint.type === 'SAFE' ? "高亮处可以安全点击！" : "高亮处根据逻辑必然是雷，请插旗。");
-    } else {
-      // Fallback to Gemini AI for complex reasoning when simple logical rules aren't enough
-      setHintMessage("正在分析局面中 (AI)...");
-      try {
-        const aiHint = await getHintFromGemini(board, config.mines - flags);
-        setHintMessage(aiHint);
-      } catch (error) {
-        setHintMessage("当前局势需要尝试更多已知区域，或暂时没有简单逻辑结论。");
-      }
+
+    hintRequestRef.current?.abort();
+    const controller = new AbortController();
+    hintRequestRef.current = controller;
+    const provider = hintProviderFor(settings);
+    if (provider.id !== 'LOGIC') {
+      setHint(null);
+      setAiHint(null);
+      setHintMessage(`正在分析局面中（${provider.name}）...`);
+    }
+
+    let result: HintResult;
+    try {
+      result = await requestHint(provider, { board, totalMines: config.mines, topology, canFlag }, { signal: controller.signal, timeoutMs: settings.hintTimeoutMs });
+    } catch (error) {
+      // Cancelled because the board changed; the move that changed it already cleared the message
+      if ((error as Error).name === 'AbortError') return;
+      setHintMessage((error as Error).name === 'TimeoutError'
+        ? `${provider.name} 在 ${settings.hintTimeoutMs / 1000} 秒内没有回应，请重试或在设置中换用其他提示来源。`
+        : `${provider.name} 出错了（${(error as Error).message}），请重试或在设置中换用其他提示来源。`);
+      return;
+    } finally {
+      if (hintRequestRef.current === controller) hintRequestRef.current = null;
     }
+
+    if (result.kind === 'DEDUCTION') {
+      const found = result.hint;
+      engine.dispatch({ type: 'HINT', x: found.x, y: found.y, hintType: found.type, premises: found.premises });
+      setHint(found);
+      setAiHint(null);
+      setHintStep(0);
+      setHintMessage(null);
+      return;
+    }
+
+    setHint(null);
+    setAiHint(null);
+    if (result.kind === 'GUESS') {
+      engine.dispatch({ type: 'HINT', x: result.x, y: result.y, hintType: 'GUESS' });
+      const percent = (result.probability * 100).toFixed(1);
+      setHintMessage(`没有必然结论，必须猜测。高亮处踩雷概率最低（${result.exact ? '' : '约 '}${percent}%）。`);
+      return;
+    }
+
+    if (result.kind === 'AI') {
+      const suggestion = result.hint;
+      const hintType = suggestion.verdict === 'GUESS' ? 'GUESS' : suggestion.action === 'REVEAL' ? 'SAFE' : 'MINE';
+      engine.dispatch({ type: 'HINT', x: suggestion.x, y: suggestion.y, hintType });
+      setAiHint(suggestion);
+      setHintMessage(null);
+      return;
+    }
+
+    setHintMessage(result.text);
   };
 
+  const openScreen = (next: 'PUZZLES' | 'VERSUS') => {
+    pausedForScreenRef.current = stopwatch.running;
+    stopwatch.stop();
+    setAutoSolving(false);
+    setScreen(next);
+  };
+
+  const closeScreen = () => {
+    if (pausedForScreenRef.current) stopwatch.start();
+    pausedForScreenRef.current = false;
+    setScreen('GAME');
+  };
+
+  if (screen !== 'GAME') {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center p-4">
+        {screen === 'PUZZLES'
+          ? <PuzzleMode settings={settings} onExit={closeScreen} />
+          : <VersusMode settings={settings} onExit={closeScreen} />}
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex flex-col items-center justify-center p-4">
       <div className="w-full max-w-4xl bg-slate-800/50 backdrop-blur-md rounded-2xl p-6 mb-6 border border-slate-700 shadow-2xl">
@@ -133,7 +581,11 @@ const App: React.FC = () => {
             {(Object.keys(DIFFICULTIES) as DifficultyLevel[]).map(level => (
               <button
                 key={level}
-                onClick={() => setDifficulty(level)}
+                onClick={() => {
+                  if (level === difficulty || !confirmDiscard()) return;
+                  if (level === DifficultyLevel.CUSTOM) setDailyMode(false);
+                  setDifficulty(level);
+                }}
                 className={`
                   px-4 py-1.5 rounded-lg text-sm font-semibold transition-all duration-200
                   ${difficulty === level 
@@ -144,6 +596,28 @@ const App: React.FC = () => {
                 {DIFFICULTIES[level].name}
               </button>
             ))}
+            <button
+              onClick={() => {
+                if (!confirmDiscard()) return;
+                // Everyone plays the same daily board, which is always a classic one
+                if (!dailyMode) {
+                  setTopology('SQUARE');
+                  setLogicRating(null);
+                  setVariant('CLASSIC');
+                }
+                setDailyMode(prev => !prev);
+              }}
+              disabled={difficulty === DifficultyLevel.CUSTOM}
+              className={`
+                ml-1 px-4 py-1.5 rounded-lg text-sm font-semibold transition-all duration-200 disabled:opacity-40
+                ${dailyMode
+                  ? 'bg-amber-500 text-white shadow-lg'
+                  : 'text-slate-400 enabled:hover:text-white enabled:hover:bg-slate-800'}
+              `}
+              title="每天一局，所有人同一个棋盘，只能挑战一次"
+            >
+              <i className="fa-solid fa-calendar-day mr-1.5"></i>每日挑战
+            </button>
           </div>
 
           <div className="flex items-center gap-4">
@@ -151,70 +625,298 @@ const App: React.FC = () => {
                 <span className="text-[10px] text-slate-500 uppercase tracking-widest font-bold">Mines</span>
                 <span className="text-xl font-mono text-orange-400 font-bold">{Math.max(0, config.mines - flags)}</span>
              </div>
+             {variant === 'LIVES' && (
+               <div className="flex flex-col items-center min-w-[60px]" title={`还能踩中 ${Math.max(0, engine.lives - 1 - hits)} 颗雷`}>
+                  <span className="text-[10px] text-slate-500 uppercase tracking-widest font-bold">Lives</span>
+                  <span className="text-xl font-mono text-rose-400 font-bold">
+                    <i className="fa-solid fa-heart text-sm mr-1"></i>{Math.max(0, engine.lives - hits)}
+                  </span>
+               </div>
+             )}
              <div className="flex flex-col items-center min-w-[60px]">
-                <span className="text-[10px] text-slate-500 uppercase tracking-widest font-bold">Time</span>
-                <span className="text-xl font-mono text-blue-400 font-bold">{timer}s</span>
+                <span className="text-[10px] text-slate-500 uppercase tracking-widest font-bold">{timeLimitMs === null ? 'Time' : 'Left'}</span>
+                {timeLimitMs === null
+                  ? <ElapsedTime stopwatch={stopwatch} className="text-xl font-mono text-blue-400 font-bold" />
+                  : <Countdown stopwatch={stopwatch} limitMs={timeLimitMs} className="text-xl font-mono font-bold" />}
+             </div>
+             <button
+                onClick={() => openScreen('PUZZLES')}
+                className="w-8 h-12 rounded-xl flex items-center justify-center border border-slate-600 text-sm transition-all bg-slate-700 text-slate-300 hover:bg-slate-600"
+                title="谜题：手工设计的残局，只靠推理就能解开"
+             >
+                <i className="fa-solid fa-puzzle-piece"></i>
+             </button>
+             <button
+                onClick={() => openScreen('VERSUS')}
+                className="w-8 h-12 rounded-xl flex items-center justify-center border border-slate-600 text-sm transition-all bg-slate-700 text-slate-300 hover:bg-slate-600"
+                title="双人对战：同屏竞速或轮流夺旗"
+             >
+                <i className="fa-solid fa-user-group"></i>
+             </button>
+             <button
+                onClick={() => setShowStats(prev => !prev)}
+                className={`w-8 h-12 rounded-xl flex items-center justify-center border border-slate-600 text-sm transition-all ${showStats ? 'bg-slate-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+                title="统计与排行榜"
+             >
+                <i className="fa-solid fa-chart-simple"></i>
+             </button>
+             <button
+                onClick={() => setShowSaves(prev => !prev)}
+                className={`w-8 h-12 rounded-xl flex items-center justify-center border border-slate-600 text-sm transition-all ${showSaves ? 'bg-slate-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+                title="存档"
+             >
+                <i className="fa-solid fa-floppy-disk"></i>
+             </button>
+             <button
+                onClick={() => setShowSettings(prev => !prev)}
+                className={`w-8 h-12 rounded-xl flex items-center justify-center border border-slate-600 text-sm transition-all ${showSettings ? 'bg-slate-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+                title="设置"
+             >
+                <i className="fa-solid fa-gear"></i>
+             </button>
+             <div className="flex flex-col gap-1">
+                <button
+                  onClick={undo}
+                  disabled={!canUndo}
+                  className="w-8 h-[22px] rounded-md bg-slate-700 enabled:hover:bg-slate-600 text-white text-xs border border-slate-600 disabled:opacity-40"
+                  title="撤销 (Ctrl+Z)"
+                >
+                  <i className="fa-solid fa-rotate-left"></i>
+                </button>
+                <button
+                  onClick={redo}
+                  disabled={!canRedo}
+                  className="w-8 h-[22px] rounded-md bg-slate-700 enabled:hover:bg-slate-600 text-white text-xs border border-slate-600 disabled:opacity-40"
+                  title="重做 (Ctrl+Y)"
+                >
+                  <i className="fa-solid fa-rotate-right"></i>
+                </button>
              </div>
              <button 
-                onClick={initGame}
-                className="w-12 h-12 bg-slate-700 hover:bg-slate-600 rounded-xl flex items-center justify-center transition-all hover:scale-105 active:scale-95 border border-slate-600"
+                onClick={() => { if (confirmDiscard()) initGame(); }}
+                disabled={daily !== null}
+                title={daily ? '每日挑战不能重开' : undefined}
+                aria-label="重新开始"
+                className="w-12 h-12 bg-slate-700 enabled:hover:bg-slate-600 rounded-xl flex items-center justify-center transition-all enabled:hover:scale-105 enabled:active:scale-95 border border-slate-600 disabled:opacity-50"
              >
                 <i className={`fa-solid ${status === GameStatus.WON ? 'fa-face-laugh-beam text-green-400' : status === GameStatus.LOST ? 'fa-face-sad-tear text-red-400' : 'fa-rotate-right text-white'}`}></i>
              </button>
           </div>
         </div>
+        {daily && (
+          <div className="mt-4 pt-4 border-t border-slate-700/50 flex flex-wrap items-center gap-3 text-sm">
+            <span className="text-amber-300 font-bold">
+              <i className="fa-solid fa-calendar-day mr-1.5"></i>每日挑战 · {daily.date} · {config.name}
+            </span>
+            <span className="text-slate-400">
+              {dailyRecord?.outcome === 'WON' && `已完成，用时 ${formatDuration(dailyRecord.timeMs ?? 0)}。明天再来！`}
+              {dailyRecord?.outcome === 'LOST' && '今天的挑战失败了。明天再来！'}
+              {dailyRecord?.outcome === 'PLAYING' && status !== GameStatus.PLAYING && '今天的挑战已开始但未完成，中途离开视为放弃。'}
+              {(!dailyRecord || status === GameStatus.PLAYING) && '所有人同一个棋盘、同一个起点，只有一次机会。'}
+              {!dailyRecord && status === GameStatus.IDLE && '点击棋盘任意位置，从起点开局并开始计时。'}
+            </span>
+          </div>
+        )}
+        <div className="mt-4 flex flex-wrap items-center gap-3 text-xs">
+          <div className="flex bg-slate-900/60 p-1 rounded-lg border border-slate-700/50" role="group" aria-label="棋盘类型">
+            {(Object.keys(TOPOLOGY_NAMES) as Topology[]).map(t => (
+              <button
+                key={t}
+                onClick={() => { if (t !== topology && confirmDiscard()) setTopology(t); }}
+                disabled={dailyMode && t !== 'SQUARE'}
+                aria-pressed={topology === t}
+                className={`px-3 py-1 rounded-md font-semibold transition-all disabled:opacity-40 ${topology === t ? 'bg-blue-600 text-white' : 'text-slate-400 enabled:hover:text-white'}`}
+              >
+                {TOPOLOGY_NAMES[t]}
+              </button>
+            ))}
+          </div>
+          <span className="text-slate-400">{TOPOLOGY_DESCRIPTIONS[topology]}</span>
+        </div>
+        <div className="mt-3 flex flex-wrap items-center gap-3 text-xs">
+          <div className="flex bg-slate-900/60 p-1 rounded-lg border border-slate-700/50" role="group" aria-label="玩法">
+            {(Object.keys(VARIANT_NAMES) as GameVariant[]).map(v => (
+              <button
+                key={v}
+                onClick={() => { if (v !== variant && confirmDiscard()) setVariant(v); }}
+                disabled={dailyMode && v !== 'CLASSIC'}
+                aria-pressed={variant === v}
+                className={`px-3 py-1 rounded-md font-semibold transition-all disabled:opacity-40 ${variant === v ? 'bg-blue-600 text-white' : 'text-slate-400 enabled:hover:text-white'}`}
+              >
+                {VARIANT_NAMES[v]}
+              </button>
+            ))}
+          </div>
+          <span className="text-slate-400">{VARIANT_DESCRIPTIONS[variant]}</span>
+        </div>
+        <div className="mt-3 flex flex-wrap items-center gap-3 text-xs">
+          <div className="flex bg-slate-900/60 p-1 rounded-lg border border-slate-700/50" role="group" aria-label="逻辑难度">
+            {([null, ...Object.keys(LOGIC_RATING_NAMES)] as (LogicRating | null)[]).map(r => (
+              <button
+                key={r ?? 'ANY'}
+                onClick={() => { if (r !== logicRating && confirmDiscard()) setLogicRating(r); }}
+                disabled={dailyMode && r !== null}
+                aria-pressed={logicRating === r}
+                className={`px-3 py-1 rounded-md font-semibold transition-all disabled:opacity-40 ${logicRating === r ? 'bg-blue-600 text-white' : 'text-slate-400 enabled:hover:text-white'}`}
+              >
+                {r ? LOGIC_RATING_NAMES[r] : '不限'}
+              </button>
+            ))}
+          </div>
+          <span className="text-slate-400">
+            {logicRating ? LOGIC_RATING_DESCRIPTIONS[logicRating] : '逻辑难度随机。'}
+            {logicScore && ` 本局：${LOGIC_RATING_NAMES[logicScore.rating]}，最难用到${RULE_NAMES[logicScore.hardest]}，非平凡推理 ${logicScore.nonTrivial} 步。`}
+          </span>
+        </div>
+        {showSettings && <SettingsPanel settings={settings} onChange={updateSettings} />}
+        {difficulty === DifficultyLevel.CUSTOM && (
+          <CustomDifficultyForm
+            key={`${customConfig.rows}x${customConfig.cols}-${customConfig.mines}`}
+            config={customConfig}
+            onApply={next => { if (confirmDiscard()) applyCustomConfig(next); }}
+          />
+        )}
+        <ShareBar
+          seed={imported ? '导入的棋盘' : formatSeed(seed)}
+          code={shareCode}
+          link={shareCode && shareLink(shareCode)}
+          onLoad={loadSharedGame}
+        />
+        <BoardFileBar board={initialBoard && status !== GameStatus.GENERATING ? board : null} topology={topology} onImport={importBoard} />
       </div>
 
+      {showStats && (
+        <StatsPanel
+          records={records}
+          initialDifficulty={difficulty}
+          initialTopology={topology}
+          initialVariant={variant}
+          initialCustomSize={customConfig}
+          onImport={importRecords}
+          onClose={() => setShowStats(false)}
+        />
+      )}
+
+      {showSaves && (
+        <SavePanel
+          slots={saveSlots}
+          canSave={status === GameStatus.PLAYING && !daily && variant !== 'BLITZ'}
+          onSave={saveToSlot}
+          onLoad={loadSavedGame}
+          onDelete={name => setSaveSlots(deleteSaveSlot(name))}
+          onClose={() => setShowSaves(false)}
+        />
+      )}
+
       <div className="relative group perspective-1000">
         {status === GameStatus.GENERATING && (
           <div className="absolute inset-0 z-10 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center rounded-xl animate-pulse">
             <div className="flex flex-col items-center gap-3">
               <div className="w-10 h-10 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
               <span className="text-white font-bold tracking-widest uppercase text-xs">生成平衡棋盘中...</span>
+              {generationProgress && generationProgress.attempt > 1 && (
+                <span className="text-slate-300 font-mono text-[10px]">
+                  第 {generationProgress.attempt} / {generationProgress.maxAttempts} 次尝试
+                </span>
+              )}
+              <button
+                onClick={initGame}
+                className="mt-1 px-3 py-1 rounded-lg text-xs font-semibold text-slate-300 border border-slate-600 hover:text-white hover:bg-slate-800"
+              >
+                取消
+              </button>
             </div>
           </div>
         )}
 
-        <div 
-          className="bg-slate-800 p-2 md:p-4 rounded-xl shadow-2xl border-4 border-slate-700/80 overflow-auto max-h-[70vh] max-w-[95vw]"
-          style={{
-            display: 'grid',
-            gridTemplateColumns: `repeat(${config.cols}, minmax(28px, 1fr))`,
-            gap: '2px',
-            width: 'fit-content'
-          }}
-        >
-          {board.map((row, x) => 
-            row.map((cell, y) => (
-              <div key={`${x}-${y}`} className="w-7 h-7 md:w-9 md:h-9">
-                <Cell 
-                  data={cell} 
-                  status={status}
-                  onClick={() => handleCellClick(x, y)}
-                  onContextMenu={(e) => handleRightClick(e, x, y)}
-                />
+        {showReplay && initialBoard ? (
+          <ReplayViewer initialBoard={initialBoard} actions={actions} topology={topology} lives={engine.lives} onClose={() => setShowReplay(false)} />
+        ) : (
+          <BoardGrid
+            board={board}
+            status={status}
+            topology={topology}
+            onCellClick={boardClick}
+            onCellReveal={boardReveal}
+            onCellContextMenu={boardRightClick}
+            onCellChord={boardChord}
+            onCellFlag={boardFlag}
+            onHint={triggerHint}
+            onCellLongPress={boardLongPress}
+            longPressMs={settings.longPressMs}
+            toolbar={
+              <div className="flex bg-slate-900/60 p-1 rounded-lg border border-slate-700/50" role="group" aria-label="点击模式">
+                {([['DIG', 'fa-person-digging', '挖开'], ['FLAG', 'fa-flag', '插旗']] as [TapMode, string, string][]).map(([mode, icon, label]) => (
+                  <button
+                    key={mode}
+                    onClick={() => setTapMode(mode)}
+                    disabled={mode === 'FLAG' && !canFlag}
+                    aria-pressed={tap === mode}
+                    className={`px-3 py-1 rounded-md font-semibold transition-all disabled:opacity-40 ${tap === mode ? 'bg-blue-600 text-white' : 'text-slate-400 enabled:hover:text-white'}`}
+                  >
+                    <i className={`fa-solid ${icon} mr-1.5`}></i>{label}
+                  </button>
+                ))}
               </div>
-            ))
-          )}
-        </div>
+            }
+            chordGesture={settings.chordGesture}
+            probabilities={probabilities?.grid}
+          />
+        )}
+        {!showReplay && (status === GameStatus.PLAYING || status === GameStatus.WON || status === GameStatus.LOST) && (
+          <div className="mt-4">
+            <PerformanceBar stopwatch={stopwatch} solvedBbbv={solvedBbbv} totalBbbv={totalBbbv} clicks={clickCounts} />
+          </div>
+        )}
       </div>
 
+      <div className="sr-only" role="status" aria-live="assertive" aria-atomic="true">{statusAnnouncement}</div>
+      <div className="sr-only" aria-live="polite" aria-atomic="true">{hintAnnouncement}</div>
+
       <div className="w-full max-w-4xl mt-6 flex flex-col gap-4">
+        {status === GameStatus.FAILED && (
+          <div className="bg-red-500/20 border border-red-500/50 p-4 rounded-xl text-center text-red-300 font-bold">
+            无法为 {config.rows}×{config.cols}、{config.mines} 颗雷生成无需猜测{engine.rating && `、逻辑难度为「${LOGIC_RATING_NAMES[engine.rating]}」`}的棋盘。请降低雷密度{engine.rating && '、换一个逻辑难度'}，或再点一次棋盘重试。
+          </div>
+        )}
+        {mayRequireGuessing && status === GameStatus.PLAYING && (
+          <div className="bg-amber-500/10 border border-amber-500/40 p-3 rounded-xl text-center text-amber-300 text-sm font-medium">
+            <i className="fa-solid fa-triangle-exclamation mr-1.5"></i>这个导入的棋盘可能需要猜测：仅凭逻辑无法从当前局面解完。
+          </div>
+        )}
+        {variant === 'LIVES' && hits > 0 && status === GameStatus.PLAYING && (
+          <div className="bg-rose-500/10 border border-rose-500/40 p-3 rounded-xl text-center text-rose-300 text-sm font-medium">
+            <i className="fa-solid fa-heart-crack mr-1.5"></i>已踩中 {hits} 颗雷，还能再踩 {engine.lives - 1 - hits} 颗。
+          </div>
+        )}
         {status === GameStatus.LOST && (
           <div className="bg-red-500/20 border border-red-500/50 p-4 rounded-xl text-center text-red-300 font-bold animate-bounce">
-            BOOM! 踩到地雷了。试试逻辑推演！
+            {timedOut ? '时间到！下次试试更快地清出空白区域。' : 'BOOM! 踩到地雷了。试试逻辑推演！'}
           </div>
         )}
         {status === GameStatus.WON && (
           <div className="bg-green-500/20 border border-green-500/50 p-4 rounded-xl text-center text-green-300 font-bold shadow-[0_0_20px_rgba(34,197,94,0.3)]">
-            恭喜！完美拆除。
+            恭喜！完美拆除。{autoSolved ? <span className="text-green-400/70 font-medium">（自动求解）</span>
+              : assisted && <span className="text-green-400/70 font-medium">（使用了撤销）</span>}
+            <div className="mt-1 text-sm font-mono font-medium text-green-300/80">
+              用时 {formatDuration(stopwatch.ms)} · 3BV {totalBbbv} · {score.bbbvPerSecond.toFixed(2)} 3BV/s · 效率 {Math.round(score.efficiency * 100)}%
+            </div>
           </div>
         )}
+        {(status === GameStatus.WON || status === GameStatus.LOST) && initialBoard && !showReplay && (
+          <button
+            onClick={() => setShowReplay(true)}
+            className="self-center px-4 py-1.5 rounded-lg text-sm font-semibold text-slate-300 border border-slate-600 hover:text-white hover:bg-slate-800"
+          >
+            <i className="fa-solid fa-film mr-1.5"></i>回放本局
+          </button>
+        )}
 
         <div className="bg-slate-800/40 border border-slate-700/50 p-5 rounded-xl flex items-center gap-4 transition-all">
           <button 
             onClick={triggerHint}
             disabled={status !== GameStatus.PLAYING}
+            aria-label="获取提示 (H)"
             className={`
               flex-shrink-0 w-14 h-14 rounded-2xl flex items-center justify-center text-2xl transition-all
               ${status === GameStatus.PLAYING 
@@ -225,18 +927,107 @@ const App: React.FC = () => {
           >
             <i className="fa-solid fa-lightbulb"></i>
           </button>
-          <div className="flex flex-col gap-1">
+          <div className="flex flex-col gap-1 flex-1">
             <span className="text-[10px] uppercase tracking-wider text-slate-500 font-bold">逻辑推演助手</span>
-            <p className="text-slate-300 text-sm leading-relaxed">
-              {hintMessage || (status === GameStatus.IDLE ? "首点区域必然安全。遇到瓶颈时点击左侧灯泡获取逻辑提示。" : "观察已揭开的数字，运用逻辑排除地雷。")}
-            </p>
+            {hint ? (
+              <>
+                <ol className="flex flex-col gap-1 text-slate-300 text-sm leading-relaxed list-decimal list-inside">
+                  {hint.steps.slice(0, hintStep + 1).map((text, i) => (
+                    <li key={i} className={i === hintStep ? 'text-white' : 'text-slate-400'}>{text}</li>
+                  ))}
+                </ol>
+                <div className="flex items-center gap-3 mt-1">
+                  <span className="text-[10px] px-2 py-0.5 rounded-full bg-sky-500/20 text-sky-300 font-bold">
+                    {RULE_NAMES[hint.rule]}
+                  </span>
+                  {/* With flags off there is nothing to do about a mine but leave it be */}
+                  {(hintStep < hint.steps.length - 1 || hint.type === 'SAFE' || canFlag) && (
+                    <button
+                      onClick={() => {
+                        if (hintStep < hint.steps.length - 1) setHintStep(hintStep + 1);
+                        else if (hint.type === 'SAFE') handleCellClick(hint.x, hint.y);
+                        else engine.dispatch({ type: 'FLAG', x: hint.x, y: hint.y });
+                      }}
+                      className="text-xs font-semibold text-blue-400 hover:text-blue-300"
+                    >
+                      {hintStep < hint.steps.length - 1 ? '下一步' : '执行这一步'}
+                      <i className="fa-solid fa-chevron-right ml-1"></i>
+                    </button>
+                  )}
+                </div>
+              </>
+            ) : aiHint ? (
+              <>
+                <p className="text-slate-300 text-sm leading-relaxed">
+                  建议{aiHint.action === 'REVEAL' ? '揭开' : '插旗'}第{aiHint.x + 1}行第{aiHint.y + 1}列。{aiHint.reasoning}
+                </p>
+                <div className="flex items-center gap-3 mt-1">
+                  {aiHint.verdict === 'VERIFIED' ? (
+                    <span className="text-[10px] px-2 py-0.5 rounded-full bg-emerald-500/20 text-emerald-300 font-bold">
+                      AI · 已由求解器验证
+                    </span>
+                  ) : (
+                    <span className="text-[10px] px-2 py-0.5 rounded-full bg-yellow-500/20 text-yellow-300 font-bold">
+                      AI · 猜测，{aiHint.action === 'REVEAL' ? '踩雷' : '是雷'}概率 {(aiHint.probability * 100).toFixed(1)}%
+                    </span>
+                  )}
+                  {(aiHint.action === 'REVEAL' || canFlag) && (
+                    <button
+                      onClick={() => {
+                        if (aiHint.action === 'REVEAL') handleCellClick(aiHint.x, aiHint.y);
+                        else engine.dispatch({ type: 'FLAG', x: aiHint.x, y: aiHint.y });
+                      }}
+                      className="text-xs font-semibold text-blue-400 hover:text-blue-300"
+                    >
+                      执行这一步
+                      <i className="fa-solid fa-chevron-right ml-1"></i>
+                    </button>
+                  )}
+                </div>
+              </>
+            ) : (
+              <p className="text-slate-300 text-sm leading-relaxed">
+                {hintMessage || (status === GameStatus.IDLE ? "首点区域必然安全。遇到瓶颈时点击左侧灯泡获取逻辑提示。" : "观察已揭开的数字，运用逻辑排除地雷。")}
+              </p>
+            )}
           </div>
+          <button
+            onClick={() => setShowHeatmap(prev => !prev)}
+            aria-pressed={showHeatmap}
+            className={`
+              flex-shrink-0 px-3 py-1.5 rounded-lg text-xs font-semibold transition-all border
+              ${showHeatmap
+                ? 'bg-amber-500/20 text-amber-300 border-amber-500/50'
+                : 'text-slate-400 border-slate-700 hover:text-white hover:bg-slate-800'}
+            `}
+            title="显示每个未揭开格子的踩雷概率"
+          >
+            <i className="fa-solid fa-fire mr-1.5"></i>概率热图
+          </button>
+          <button
+            onClick={toggleAutoSolve}
+            disabled={status !== GameStatus.PLAYING || daily !== null}
+            aria-pressed={autoSolving}
+            className={`
+              flex-shrink-0 px-3 py-1.5 rounded-lg text-xs font-semibold transition-all border disabled:opacity-40
+              ${autoSolving
+                ? 'bg-emerald-500/20 text-emerald-300 border-emerald-500/50'
+                : 'text-slate-400 border-slate-700 enabled:hover:text-white enabled:hover:bg-slate-800'}
+            `}
+            title="让机器人一步步解完当前棋盘：能推理时推理，不能时猜最安全的格子。本局不计入排行榜"
+          >
+            <i className={`fa-solid ${autoSolving ? 'fa-pause' : 'fa-robot'} mr-1.5`}></i>{autoSolving ? '暂停' : '自动求解'}
+          </button>
         </div>
       </div>
       
-      <div className="mt-8 text-slate-600 text-[10px] uppercase tracking-[0.2em] font-medium flex gap-6">
+      <div className="mt-8 text-slate-600 text-[10px] uppercase tracking-[0.2em] font-medium flex flex-wrap justify-center gap-x-6 gap-y-2">
         <span>左键: 揭开</span>
-        <span>右键: 插旗</span>
+        {canFlag && <span>右键: 插旗</span>}
+        {settings.chordGesture !== 'OFF' && <span>{CHORD_GESTURE_NAMES[settings.chordGesture]}: 快速翻开</span>}
+        {settings.longPressMs > 0 && canFlag && <span>长按: {tap === 'DIG' ? '插旗' : '揭开'}</span>}
+        <span>Ctrl+Z / Ctrl+Y: 撤销 / 重做</span>
+        <span>键盘: {BOARD_KEYS.map(([key, action]) => `${key} ${action}`).join(' · ')}</span>
         <span>SmartMines © 2024</span>
       </div>
     </div>
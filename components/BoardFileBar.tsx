@@ -0,0 +1,63 @@
+import React, { useRef, useState } from 'react';
+import { Board, Topology } from '../types';
+import { serializeBoardText, serializeMbf } from '../utils/boardFile';
+
+interface BoardFileBarProps {
+  /** The board to export; null until a layout exists. */
+  board: Board | null;
+  topology: Topology;
+  /** Returns an error message when the file cannot be loaded. */
+  onImport: (file: File) => Promise<string | null>;
+}
+
+export const BoardFileBar: React.FC<BoardFileBarProps> = ({ board, topology, onImport }) => {
+  const [message, setMessage] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const download = (data: BlobPart, type: string, extension: string) => {
+    const url = URL.createObjectURL(new Blob([data], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `smart-minesweeper-board-${new Date().toISOString().slice(0, 10)}.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const upload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setMessage(await onImport(file));
+  };
+
+  const button = 'px-3 py-1 rounded-lg font-semibold border border-slate-700 text-slate-400 enabled:hover:text-white enabled:hover:bg-slate-800 disabled:opacity-40';
+
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-3 text-xs">
+      <span className="text-slate-500 font-bold uppercase tracking-widest">Board</span>
+      <button
+        onClick={() => board && download(serializeBoardText(board, topology), 'text/plain', 'txt')}
+        disabled={!board}
+        className={button}
+        title="文本格式，包含布雷和当前进度"
+      >
+        <i className="fa-solid fa-file-lines mr-1.5"></i>导出文本
+      </button>
+      <button
+        onClick={() => board && download(serializeMbf(board), 'application/octet-stream', 'mbf')}
+        disabled={!board || topology !== 'SQUARE'}
+        className={button}
+        title={topology === 'SQUARE'
+          ? 'MBF 格式，只包含布雷，可在 Minesweeper Arbiter 等工具中打开'
+          : 'MBF 格式只能表示经典棋盘，这种棋盘请导出文本'}
+      >
+        <i className="fa-solid fa-file-export mr-1.5"></i>导出 MBF
+      </button>
+      <button onClick={() => fileRef.current?.click()} className={button}>
+        <i className="fa-solid fa-file-import mr-1.5"></i>导入棋盘
+      </button>
+      <input ref={fileRef} type="file" accept=".txt,.mbf,text/plain" onChange={upload} className="hidden" />
+      {message && <span className="text-red-400">{message}</span>}
+    </div>
+  );
+};
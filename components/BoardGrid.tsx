@@ -0,0 +1,360 @@
+import React, { useRef, useState } from 'react';
+import { Board, ChordGesture, GameStatus, Topology } from '../types';
+import { ZOOM_LIMITS } from '../constants';
+import { getNeighbors } from '../utils/grid';
+import { Cell } from './Cell';
+
+interface BoardGridProps {
+  board: Board;
+  status: GameStatus;
+  /** Picks the layout; defaults to the classic square grid. */
+  topology?: Topology;
+  /** Pointer taps and clicks. */
+  onCellClick?: (x: number, y: number) => void;
+  /** The keyboard reveal key, which reveals whatever a tap is set to do; defaults to onCellClick. */
+  onCellReveal?: (x: number, y: number) => void;
+  onCellContextMenu?: (e: React.MouseEvent, x: number, y: number) => void;
+  /** Fired for the middle-click and both-buttons gestures; plain clicks go to onCellClick. */
+  onCellChord?: (x: number, y: number) => void;
+  chordGesture?: ChordGesture;
+  /** Per-cell mine probabilities for the heatmap overlay. */
+  probabilities?: (number | null)[][] | null;
+  /** Keyboard flag toggle; the mouse goes through onCellContextMenu. */
+  onCellFlag?: (x: number, y: number) => void;
+  onHint?: () => void;
+  /** Touch held for `longPressMs`; the click that follows is swallowed. */
+  onCellLongPress?: (x: number, y: number) => void;
+  longPressMs?: number;
+  /** Extra controls shown left of the zoom buttons. */
+  toolbar?: React.ReactNode;
+  /** Cells outlined in a colour of their own, such as player cursors in versus play; later entries win. */
+  markers?: { x: number; y: number; className: string }[];
+}
+
+/** Finger travel in px after which a touch is a scroll, not a tap. */
+const TAP_SLOP = 10;
+/** Clicks this soon after a long press, scroll or pinch are leftovers of that gesture. */
+const GHOST_CLICK_MS = 400;
+
+const clampZoom = (zoom: number) => Math.min(ZOOM_LIMITS.max, Math.max(ZOOM_LIMITS.min, zoom));
+
+const touchDistance = (touches: React.TouchList) =>
+  Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+
+/** The board cell under an event target, from the data attributes on its wrapper. */
+const cellAt = (target: EventTarget) => {
+  const el = (target as HTMLElement).closest<HTMLElement>('[data-cell]');
+  return el ? { x: Number(el.dataset.x), y: Number(el.dataset.y) } : null;
+};
+
+const HEXAGON = 'polygon(50% 0, 100% 25%, 100% 75%, 50% 100%, 0 75%, 0 25%)';
+
+interface Layout {
+  grid: React.CSSProperties;
+  /** Where cell (x, y) goes in the CSS grid. */
+  place: (x: number, y: number) => React.CSSProperties;
+}
+
+/**
+ * How each topology is drawn. All cells are `--cell` wide. Hex rows overlap
+ * by a quarter and odd rows shift half a cell right, matching the offset
+ * rows of getNeighbors. The torus leaves a one-cell margin for the wrapped
+ * copies of the opposite edges.
+ */
+function layoutFor(topology: Topology, cols: number): Layout {
+  switch (topology) {
+    case 'HEX':
+      return {
+        grid: {
+          gridTemplateColumns: `repeat(${cols * 2 + 1}, calc(var(--cell) / 2))`,
+          gridAutoRows: 'calc(var(--cell) * 0.75)',
+          paddingBottom: 'calc(var(--cell) * 0.25)'
+        },
+        place: (x, y) => ({ gridRow: x + 1, gridColumn: `${y * 2 + 1 + (x % 2)} / span 2`, clipPath: HEXAGON })
+      };
+    case 'TORUS':
+      return {
+        grid: { gridTemplateColumns: `repeat(${cols + 2}, var(--cell))` },
+        place: (x, y) => ({ gridRow: x + 2, gridColumn: y + 2 })
+      };
+    default:
+      return {
+        grid: { gridTemplateColumns: `repeat(${cols}, var(--cell))` },
+        place: (x, y) => ({ gridRow: x + 1, gridColumn: y + 1 })
+      };
+  }
+}
+
+/** Keyboard controls, also listed under the board. */
+export const BOARD_KEYS: [string, string][] = [
+  ['方向键', '移动'],
+  ['Enter / 空格', '揭开'],
+  ['F', '插旗'],
+  ['C', '快速翻开'],
+  ['H', '提示']
+];
+
+export const BoardGrid: React.FC<BoardGridProps> = ({
+  board, status, topology = 'SQUARE', onCellClick, onCellReveal = onCellClick, onCellContextMenu, onCellChord, chordGesture = 'OFF', probabilities, onCellFlag,
+  onHint, onCellLongPress, longPressMs = 0, toolbar, markers
+}) => {
+  const rows = board.length;
+  const cols = board[0]?.length ?? 0;
+  const layout = layoutFor(topology, cols);
+  const [focus, setFocus] = useState({ x: 0, y: 0 });
+  const [hover, setHover] = useState<{ x: number; y: number } | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const cellRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const pressRef = useRef<{ startX: number; startY: number; timer: number | null } | null>(null);
+  const pinchRef = useRef<{ distance: number; zoom: number } | null>(null);
+  const suppressUntilRef = useRef(0);
+  // The long-press timer fires after a delay; it must call the handler of the latest render
+  const longPressRef = useRef(onCellLongPress);
+  longPressRef.current = onCellLongPress;
+
+  // The board can shrink under the focused cell when the difficulty changes
+  const fx = Math.min(focus.x, Math.max(rows - 1, 0));
+  const fy = Math.min(focus.y, Math.max(cols - 1, 0));
+
+  const moveTo = (x: number, y: number) => {
+    // On a torus the arrow keys wrap round like the board does
+    const wrap = topology === 'TORUS';
+    const nx = wrap ? (x + rows) % rows : Math.max(0, Math.min(rows - 1, x));
+    const ny = wrap ? (y + cols) % cols : Math.max(0, Math.min(cols - 1, y));
+    setFocus({ x: nx, y: ny });
+    cellRefs.current[nx * cols + ny]?.focus();
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.altKey || e.ctrlKey || e.metaKey || rows === 0) return;
+    const moves: Record<string, () => void> = {
+      ArrowUp: () => moveTo(fx - 1, fy),
+      ArrowDown: () => moveTo(fx + 1, fy),
+      ArrowLeft: () => moveTo(fx, fy - 1),
+      ArrowRight: () => moveTo(fx, fy + 1),
+      Home: () => moveTo(fx, 0),
+      End: () => moveTo(fx, cols - 1),
+      PageUp: () => moveTo(0, fy),
+      PageDown: () => moveTo(rows - 1, fy),
+      Enter: () => onCellReveal?.(fx, fy),
+      ' ': () => onCellReveal?.(fx, fy),
+      f: () => onCellFlag?.(fx, fy),
+      c: () => onCellChord?.(fx, fy),
+      h: () => onHint?.()
+    };
+    const action = moves[e.key.length === 1 ? e.key.toLowerCase() : e.key];
+    if (!action) return;
+    e.preventDefault();
+    action();
+  };
+
+  const suppressClicks = () => { suppressUntilRef.current = Date.now() + GHOST_CLICK_MS; };
+
+  const cancelPress = () => {
+    if (pressRef.current?.timer) clearTimeout(pressRef.current.timer);
+    pressRef.current = null;
+  };
+
+  const onTouchStart = (e: React.TouchEvent) => {
+    if (e.touches.length === 2) {
+      cancelPress();
+      pinchRef.current = { distance: touchDistance(e.touches), zoom };
+      suppressClicks();
+      return;
+    }
+    const cell = e.touches.length === 1 ? cellAt(e.target) : null;
+    if (!cell) return;
+    cancelPress();
+    const press = { startX: e.touches[0].clientX, startY: e.touches[0].clientY, timer: null as number | null };
+    if (longPressMs > 0) {
+      press.timer = window.setTimeout(() => {
+        press.timer = null;
+        suppressClicks();
+        navigator.vibrate?.(30);
+        longPressRef.current?.(cell.x, cell.y);
+      }, longPressMs);
+    }
+    pressRef.current = press;
+  };
+
+  const onTouchMove = (e: React.TouchEvent) => {
+    if (pinchRef.current && e.touches.length === 2) {
+      const { distance, zoom: startZoom } = pinchRef.current;
+      setZoom(clampZoom(startZoom * touchDistance(e.touches) / distance));
+      return;
+    }
+    const press = pressRef.current;
+    if (!press) return;
+    const touch = e.touches[0];
+    if (Math.hypot(touch.clientX - press.startX, touch.clientY - press.startY) > TAP_SLOP) {
+      // A pan, not a tap: neither flag nor reveal where the finger happened to land
+      cancelPress();
+      suppressClicks();
+    }
+  };
+
+  const onTouchEnd = (e: React.TouchEvent) => {
+    if (e.touches.length < 2) pinchRef.current = null;
+    cancelPress();
+  };
+
+  const onClickCapture = (e: React.MouseEvent) => {
+    if (Date.now() < suppressUntilRef.current) {
+      e.stopPropagation();
+      e.preventDefault();
+    }
+  };
+
+  // Android fires contextmenu on its own long press; only our timer may flag from a touch
+  const onContextMenuCapture = (e: React.MouseEvent) => {
+    if (pressRef.current || Date.now() < suppressUntilRef.current) {
+      e.stopPropagation();
+      e.preventDefault();
+    }
+  };
+
+  const fitToScreen = () => {
+    const viewport = viewportRef.current;
+    const grid = gridRef.current;
+    if (!viewport || !grid) return;
+    setZoom(clampZoom(Math.min(1, zoom * viewport.clientWidth / grid.scrollWidth)));
+  };
+
+  // Knight neighbours are far from obvious, so the cells a number counts are outlined under the pointer
+  const linked = new Set<number>();
+  if (topology === 'KNIGHT' && rows > 0) {
+    const from = hover ?? { x: fx, y: fy };
+    getNeighbors(from.x, from.y, rows, cols, topology).forEach(n => linked.add(n.r * cols + n.c));
+  }
+
+  const marked = new Map<number, string>();
+  markers?.forEach(m => marked.set(m.x * cols + m.y, m.className));
+
+  // Non-interactive copies of the opposite edges around a torus, so wrapped neighbours are visible
+  const ghosts: { row: number; col: number; x: number; y: number }[] = [];
+  if (topology === 'TORUS' && rows > 0) {
+    for (let row = -1; row <= rows; row++) {
+      for (let col = -1; col <= cols; col++) {
+        if (row >= 0 && row < rows && col >= 0 && col < cols) continue;
+        ghosts.push({ row, col, x: (row + rows) % rows, y: (col + cols) % cols });
+      }
+    }
+  }
+
+  const zoomButton = 'w-7 h-7 rounded-lg border border-slate-700 text-slate-300 hover:text-white hover:bg-slate-800 disabled:opacity-40';
+
+  return (
+    <div className="flex flex-col items-center gap-2 max-w-[95vw]">
+      <div className="w-full flex flex-wrap items-center justify-between gap-3 text-xs">
+        {toolbar ?? <span />}
+        <div className="flex items-center gap-1.5">
+          <button
+            onClick={() => setZoom(clampZoom(zoom - ZOOM_LIMITS.step))}
+            disabled={zoom <= ZOOM_LIMITS.min}
+            className={zoomButton}
+            aria-label="缩小"
+          >
+            <i className="fa-solid fa-minus"></i>
+          </button>
+          <span className="w-10 text-center font-mono text-slate-400">{Math.round(zoom * 100)}%</span>
+          <button
+            onClick={() => setZoom(clampZoom(zoom + ZOOM_LIMITS.step))}
+            disabled={zoom >= ZOOM_LIMITS.max}
+            className={zoomButton}
+            aria-label="放大"
+          >
+            <i className="fa-solid fa-plus"></i>
+          </button>
+          <button onClick={fitToScreen} className={zoomButton} title="适应屏幕宽度" aria-label="适应屏幕宽度">
+            <i className="fa-solid fa-expand"></i>
+          </button>
+        </div>
+      </div>
+
+      <div
+        ref={viewportRef}
+        onScroll={suppressClicks}
+        className="bg-slate-800 rounded-xl shadow-2xl border-4 border-slate-700/80 overflow-auto max-h-[70vh] max-w-full"
+        // Pinches are handled here instead of zooming the whole page; one-finger pans still scroll
+        style={{ touchAction: 'pan-x pan-y', WebkitTouchCallout: 'none' }}
+      >
+        <div
+          ref={gridRef}
+          role="grid"
+          aria-label={`扫雷棋盘，${rows} 行 ${cols} 列`}
+          aria-rowcount={rows}
+          aria-colcount={cols}
+          onKeyDown={onKeyDown}
+          onTouchStart={onTouchStart}
+          onTouchMove={onTouchMove}
+          onTouchEnd={onTouchEnd}
+          onTouchCancel={onTouchEnd}
+          onClickCapture={onClickCapture}
+          onContextMenuCapture={onContextMenuCapture}
+          onMouseLeave={() => setHover(null)}
+          className="p-2 md:p-4 [--cell:calc(1.75rem*var(--zoom))] md:[--cell:calc(2.25rem*var(--zoom))]"
+          style={{
+            display: 'grid',
+            gap: '2px',
+            width: 'fit-content',
+            '--zoom': zoom,
+            ...layout.grid
+          } as React.CSSProperties}
+        >
+          {ghosts.map(({ row, col, x, y }) => (
+            <div
+              key={`ghost-${row}-${col}`}
+              aria-hidden="true"
+              className="w-[var(--cell)] h-[var(--cell)] opacity-40 pointer-events-none"
+              style={{ gridRow: row + 2, gridColumn: col + 2 }}
+            >
+              <Cell data={board[x][y]} status={status} x={x} y={y} onClick={() => {}} onContextMenu={() => {}} />
+            </div>
+          ))}
+          {board.map((row, x) => (
+            // Rows exist for assistive tech only; `contents` keeps the cells in the CSS grid
+            <div key={x} role="row" aria-rowindex={x + 1} className="contents">
+              {row.map((cell, y) => (
+                <div
+                  key={`${x}-${y}`}
+                  data-cell
+                  data-x={x}
+                  data-y={y}
+                  onMouseEnter={topology === 'KNIGHT' ? () => setHover({ x, y }) : undefined}
+                  className={`w-[var(--cell)] h-[var(--cell)] ${marked.get(x * cols + y) ?? (linked.has(x * cols + y) ? 'outline outline-2 outline-violet-400/70 rounded-sm' : '')}`}
+                  style={layout.place(x, y)}
+                >
+                  <Cell 
+                    data={cell} 
+                    status={status}
+                    x={x}
+                    y={y}
+                    focused={x === fx && y === fy}
+                    cellRef={el => { cellRefs.current[x * cols + y] = el; }}
+                    onFocus={() => setFocus({ x, y })}
+                    onClick={() => onCellClick?.(x, y)}
+                    onContextMenu={(e) => {
+                      e.preventDefault();
+                      onCellContextMenu?.(e, x, y);
+                    }}
+                    onMouseDown={(e) => {
+                      // Middle button: suppress autoscroll. Both buttons held: chord right away.
+                      if (e.button === 1) e.preventDefault();
+                      if (chordGesture === 'BOTH' && (e.buttons & 3) === 3) onCellChord?.(x, y);
+                    }}
+                    onAuxClick={(e) => {
+                      if (chordGesture === 'MIDDLE' && e.button === 1) onCellChord?.(x, y);
+                    }}
+                    mineProbability={probabilities?.[x][y]}
+                  />
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
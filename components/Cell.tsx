@@ -6,12 +6,43 @@ import { COLORS } from '../constants';
 interface CellProps {
   data: CellData;
   status: GameStatus;
+  /** Zero-based position, used for the accessible label. */
+  x: number;
+  y: number;
+  /** Roving tabindex: only the keyboard-focused cell is in the tab order. */
+  focused?: boolean;
+  cellRef?: React.Ref<HTMLDivElement>;
+  onFocus?: () => void;
   onClick: () => void;
   onContextMenu: (e: React.MouseEvent) => void;
+  onMouseDown?: (e: React.MouseEvent) => void;
+  onAuxClick?: (e: React.MouseEvent) => void;
+  /** Mine probability shown as a heatmap tint; omitted when the overlay is off. */
+  mineProbability?: number | null;
 }
 
-export const Cell: React.FC<CellProps> = ({ data, status, onClick, onContextMenu }) => {
-  const { isRevealed, isFlagged, isMine, neighborCount, isHinted, hintType } = data;
+const HINT_LABELS = { SAFE: '提示：安全', MINE: '提示：是雷', GUESS: '提示：最安全的猜测' };
+
+/** What a screen reader announces for the cell, in the same terms the board shows visually. */
+function describeCell(data: CellData, status: GameStatus, x: number, y: number, mineProbability?: number | null): string {
+  const parts = [`第${x + 1}行第${y + 1}列`];
+  if (data.isRevealed) {
+    if (data.isMine) parts.push('地雷');
+    else parts.push(data.neighborCount > 0 ? `数字 ${data.neighborCount}` : '空白');
+    if (data.isPremise) parts.push('提示依据');
+  } else {
+    if (status === GameStatus.LOST && data.isMine) parts.push('未揭开的地雷');
+    else parts.push(data.isFlagged ? '已插旗' : '未揭开');
+    if (data.isHinted && data.hintType) parts.push(HINT_LABELS[data.hintType]);
+    if (mineProbability != null) parts.push(`踩雷概率 ${Math.round(mineProbability * 100)}%`);
+  }
+  return parts.join('，');
+}
+
+export const Cell: React.FC<CellProps> = ({
+  data, status, x, y, focused = false, cellRef, onFocus, onClick, onContextMenu, onMouseDown, onAuxClick, mineProbability
+}) => {
+  const { isRevealed, isFlagged, isMine, neighborCount, isHinted, hintType, isPremise } = data;
 
   let content = null;
   let bgColor = 'bg-slate-700/50 hover:bg-slate-600/50 cursor-pointer shadow-inner';
@@ -23,9 +54,15 @@ export const Cell: React.FC<CellProps> = ({ data, status, onClick, onContextMenu
       ringStyle = 'ring-2 ring-emerald-400 ring-inset shadow-[0_0_15px_rgba(52,211,153,0.5)]';
     } else if (hintType === 'MINE') {
       ringStyle = 'ring-2 ring-orange-500 ring-inset shadow-[0_0_15px_rgba(249,115,22,0.5)]';
+    } else if (hintType === 'GUESS') {
+      ringStyle = 'ring-2 ring-yellow-300 ring-inset shadow-[0_0_15px_rgba(253,224,71,0.5)]';
     }
   }
 
+  if (isPremise && isRevealed) {
+    ringStyle = 'ring-2 ring-sky-400 ring-inset';
+  }
+
   if (isRevealed) {
     bgColor = 'bg-slate-900/40 cursor-default';
     if (isMine) {
@@ -43,19 +80,36 @@ export const Cell: React.FC<CellProps> = ({ data, status, onClick, onContextMenu
     content = <i className="fa-solid fa-bomb text-red-400 opacity-60 text-xs md:text-sm"></i>;
   }
 
+  const showHeat = mineProbability != null && !isRevealed && !isFlagged && status === GameStatus.PLAYING;
+
   return (
     <div
+      ref={cellRef}
+      role="gridcell"
+      tabIndex={focused ? 0 : -1}
+      aria-label={describeCell(data, status, x, y, showHeat ? mineProbability : null)}
+      aria-selected={focused}
+      onFocus={onFocus}
       onClick={onClick}
       onContextMenu={onContextMenu}
+      onMouseDown={onMouseDown}
+      onAuxClick={onAuxClick}
+      title={showHeat ? `踩雷概率 ${Math.round(mineProbability! * 100)}%` : undefined}
       className={`
-        mine-cell w-full h-full flex items-center justify-center 
+        mine-cell relative w-full h-full flex items-center justify-center 
         rounded-sm border border-slate-800/50 select-none
         ${bgColor} ${textColor} font-bold text-sm md:text-base
         active:scale-95 active:bg-slate-500/50
-        transition-all duration-75
+        transition-all duration-75 focus:outline-none focus-visible:ring-2 focus-visible:ring-white focus-visible:z-10
         ${ringStyle}
       `}
     >
+      {showHeat && (
+        <span
+          className="absolute inset-0 rounded-sm pointer-events-none"
+          style={{ backgroundColor: `hsla(${Math.round(120 * (1 - mineProbability!))}, 85%, 50%, 0.35)` }}
+        />
+      )}
       {content}
     </div>
   );
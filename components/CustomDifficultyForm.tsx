@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { DifficultyConfig } from '../types';
+import { validateDifficulty } from '../utils/gameLogic';
+
+interface CustomDifficultyFormProps {
+  config: DifficultyConfig;
+  onApply: (config: DifficultyConfig) => void;
+}
+
+export const CustomDifficultyForm: React.FC<CustomDifficultyFormProps> = ({ config, onApply }) => {
+  const [rows, setRows] = useState(String(config.rows));
+  const [cols, setCols] = useState(String(config.cols));
+  const [mines, setMines] = useState(String(config.mines));
+  const [error, setError] = useState<string | null>(null);
+
+  const apply = (e: React.FormEvent) => {
+    e.preventDefault();
+    const next = { ...config, rows: Number(rows), cols: Number(cols), mines: Number(mines) };
+    const message = validateDifficulty(next.rows, next.cols, next.mines);
+    setError(message);
+    if (!message) onApply(next);
+  };
+
+  const fields: [string, string, (value: string) => void][] = [
+    ['行', rows, setRows],
+    ['列', cols, setCols],
+    ['雷', mines, setMines]
+  ];
+
+  return (
+    <form onSubmit={apply} className="mt-4 pt-4 border-t border-slate-700/50 flex flex-wrap items-center gap-3">
+      {fields.map(([label, value, setValue]) => (
+        <label key={label} className="flex items-center gap-2 text-xs text-slate-400 font-semibold">
+          {label}
+          <input
+            type="number"
+            value={value}
+            onChange={e => setValue(e.target.value)}
+            className="w-20 bg-slate-900/60 border border-slate-700 rounded-lg px-2 py-1 text-sm text-white font-mono focus:outline-none focus:border-blue-500"
+          />
+        </label>
+      ))}
+      <button
+        type="submit"
+        className="px-4 py-1.5 rounded-lg text-sm font-semibold bg-blue-600 hover:bg-blue-500 text-white transition-all"
+      >
+        应用
+      </button>
+      {error && <span className="text-xs text-red-400 font-medium">{error}</span>}
+    </form>
+  );
+};
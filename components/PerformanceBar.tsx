@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import { ClickCounts } from '../types';
+import { computePerformance } from '../utils/gameLogic';
+import { Stopwatch } from '../utils/stopwatch';
+
+/** Re-renders the calling component every `interval` ms while `active`. */
+function useTicker(active: boolean, interval: number) {
+  const [, setTick] = useState(0);
+  useEffect(() => {
+    if (!active) return;
+    const id = window.setInterval(() => setTick(t => t + 1), interval);
+    return () => clearInterval(id);
+  }, [active, interval]);
+}
+
+interface ElapsedTimeProps {
+  stopwatch: Stopwatch;
+  className?: string;
+}
+
+export const ElapsedTime: React.FC<ElapsedTimeProps> = ({ stopwatch, className }) => {
+  useTicker(stopwatch.running, 100);
+  const ms = stopwatch.ms;
+  // Tenths while the clock runs, full milliseconds once it stops
+  return <span className={className}>{(ms / 1000).toFixed(stopwatch.running ? 1 : 3)}s</span>;
+};
+
+interface CountdownProps {
+  stopwatch: Stopwatch;
+  /** Game time at which the countdown reaches zero. */
+  limitMs: number;
+  /** Everything but the colour, which turns from blue to red for the last ten seconds. */
+  className?: string;
+}
+
+/** Time left before `limitMs`. */
+export const Countdown: React.FC<CountdownProps> = ({ stopwatch, limitMs, className }) => {
+  useTicker(stopwatch.running, 100);
+  const left = Math.max(0, limitMs - stopwatch.ms);
+  return <span className={`${className ?? ''} ${left < 10000 ? 'text-red-400' : 'text-blue-400'}`}>{(left / 1000).toFixed(1)}s</span>;
+};
+
+interface PerformanceBarProps {
+  stopwatch: Stopwatch;
+  solvedBbbv: number;
+  totalBbbv: number;
+  clicks: ClickCounts;
+}
+
+export const PerformanceBar: React.FC<PerformanceBarProps> = ({ stopwatch, solvedBbbv, totalBbbv, clicks }) => {
+  useTicker(stopwatch.running, 250);
+  const { bbbvPerSecond, efficiency } = computePerformance(solvedBbbv, clicks, stopwatch.ms);
+
+  const items: [string, string][] = [
+    ['3BV', `${solvedBbbv}/${totalBbbv}`],
+    ['3BV/s', bbbvPerSecond.toFixed(2)],
+    ['效率', `${Math.round(efficiency * 100)}%`],
+    ['左键', String(clicks.left)],
+    ['右键', String(clicks.right)],
+    ['快速翻开', String(clicks.chord)],
+    ['无效', String(clicks.wasted)]
+  ];
+
+  return (
+    <div className="flex flex-wrap justify-center gap-x-5 gap-y-1 text-xs font-mono">
+      {items.map(([label, value]) => (
+        <span key={label} className="text-slate-500">
+          {label} <span className="text-slate-200 font-bold">{value}</span>
+        </span>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { GameStatus, Puzzle } from '../types';
+import { PUZZLE_LIMITS, RULE_NAMES } from '../constants';
+import { checkPuzzle, PuzzleCheck, puzzleBoard } from '../utils/puzzle';
+import { BoardGrid } from './BoardGrid';
+
+interface PuzzleEditorProps {
+  /** The puzzle to edit; omitted for a new one. */
+  initial?: Puzzle;
+  onSave: (puzzle: Puzzle) => void;
+  onPlay: (puzzle: Puzzle) => void;
+  onCancel: () => void;
+}
+
+type EditTool = 'REVEAL' | 'MINE';
+
+const toggle = (set: Set<number>, i: number) => {
+  const next = new Set(set);
+  if (!next.delete(i)) next.add(i);
+  return next;
+};
+
+export const PuzzleEditor: React.FC<PuzzleEditorProps> = ({ initial, onSave, onPlay, onCancel }) => {
+  const [name, setName] = useState(initial?.name ?? '');
+  const [size, setSize] = useState({ rows: initial?.rows ?? 8, cols: initial?.cols ?? 8 });
+  const [sizeInput, setSizeInput] = useState({ rows: String(size.rows), cols: String(size.cols) });
+  const [mines, setMines] = useState(() => new Set(initial?.mines));
+  const [revealed, setRevealed] = useState(() => new Set(initial?.revealed));
+  const [tool, setTool] = useState<EditTool>('MINE');
+  const [check, setCheck] = useState<PuzzleCheck | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const puzzle: Puzzle = {
+    id: initial?.id ?? '',
+    name: name.trim() || '未命名谜题',
+    rows: size.rows,
+    cols: size.cols,
+    mines: [...mines].sort((a, b) => a - b),
+    revealed: [...revealed].sort((a, b) => a - b)
+  };
+
+  // Drawn as a lost game so that every mine shows; undecidable cells from the last check are highlighted
+  const board = puzzleBoard(puzzle);
+  check?.undetermined.forEach(({ x, y }) => {
+    board[x][y].isHinted = true;
+    board[x][y].hintType = 'GUESS';
+  });
+
+  const edit = (x: number, y: number, as: EditTool) => {
+    const i = x * size.cols + y;
+    setCheck(null);
+    if (as === 'MINE') {
+      setMines(toggle(mines, i));
+      if (revealed.has(i)) setRevealed(toggle(revealed, i));
+    } else {
+      setRevealed(toggle(revealed, i));
+      if (mines.has(i)) setMines(toggle(mines, i));
+    }
+  };
+
+  const resize = (e: React.FormEvent) => {
+    e.preventDefault();
+    const rows = Number(sizeInput.rows);
+    const cols = Number(sizeInput.cols);
+    const { minSize, maxSize } = PUZZLE_LIMITS;
+    if (![rows, cols].every(n => Number.isInteger(n) && n >= minSize && n <= maxSize)) {
+      setError(`行数和列数必须是 ${minSize} 到 ${maxSize} 之间的整数。`);
+      return;
+    }
+    if ((mines.size > 0 || revealed.size > 0) && !window.confirm('改变大小会清空棋盘，继续吗？')) return;
+    setError(null);
+    setSize({ rows, cols });
+    setMines(new Set());
+    setRevealed(new Set());
+    setCheck(null);
+  };
+
+  const revealAll = () => {
+    const all = new Set<number>();
+    for (let i = 0; i < size.rows * size.cols; i++) if (!mines.has(i)) all.add(i);
+    setRevealed(all);
+    setCheck(null);
+  };
+
+  /** Checks the puzzle and returns it when it is valid. */
+  const validate = (): Puzzle | null => {
+    if (mines.size === 0) {
+      setCheck(null);
+      setError('请先放置至少一颗雷。');
+      return null;
+    }
+    const result = checkPuzzle(puzzle);
+    setCheck(result);
+    setError(null);
+    return result.errors.length === 0 ? puzzle : null;
+  };
+
+  const button = 'px-3 py-1.5 rounded-lg font-semibold border border-slate-700 text-slate-400 hover:text-white hover:bg-slate-800';
+
+  return (
+    <div className="flex flex-col items-center gap-4 w-full">
+      <div className="w-full max-w-4xl flex flex-wrap items-center gap-3 text-xs">
+        <input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          placeholder="谜题名称"
+          maxLength={40}
+          className="w-48 bg-slate-900/60 border border-slate-700 rounded-lg px-2 py-1 text-sm text-white focus:outline-none focus:border-blue-500"
+        />
+        <form onSubmit={resize} className="flex items-center gap-2">
+          {(['rows', 'cols'] as const).map(key => (
+            <label key={key} className="flex items-center gap-2 text-slate-400 font-semibold">
+              {key === 'rows' ? '行' : '列'}
+              <input
+                type="number"
+                value={sizeInput[key]}
+                onChange={e => setSizeInput({ ...sizeInput, [key]: e.target.value })}
+                className="w-16 bg-slate-900/60 border border-slate-700 rounded-lg px-2 py-1 text-sm text-white font-mono focus:outline-none focus:border-blue-500"
+              />
+            </label>
+          ))}
+          <button type="submit" className={button}>改变大小</button>
+        </form>
+        <button onClick={revealAll} className={button} title="揭开所有不是雷的格子，再逐个盖回">揭开全部安全格</button>
+        <button onClick={() => { setRevealed(new Set()); setCheck(null); }} className={button}>全部盖上</button>
+      </div>
+
+      <p className="w-full max-w-4xl text-slate-400 text-sm">
+        点击格子{tool === 'MINE' ? '放置或移除雷' : '切换是否一开始就揭开'}；右键或长按总是放置雷。揭开的格子会显示数字，作为解题线索。
+      </p>
+
+      <BoardGrid
+        board={board}
+        status={GameStatus.LOST}
+        onCellClick={(x, y) => edit(x, y, tool)}
+        onCellContextMenu={(e, x, y) => { e.preventDefault(); edit(x, y, 'MINE'); }}
+        onCellFlag={(x, y) => edit(x, y, 'MINE')}
+        onCellLongPress={(x, y) => edit(x, y, 'MINE')}
+        longPressMs={400}
+        toolbar={
+          <div className="flex bg-slate-900/60 p-1 rounded-lg border border-slate-700/50" role="group" aria-label="编辑工具">
+            {([['MINE', 'fa-bomb', '雷'], ['REVEAL', 'fa-eye', '揭开']] as [EditTool, string, string][]).map(([value, icon, label]) => (
+              <button
+                key={value}
+                onClick={() => setTool(value)}
+                aria-pressed={tool === value}
+                className={`px-3 py-1 rounded-md font-semibold transition-all ${tool === value ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+              >
+                <i className={`fa-solid ${icon} mr-1.5`}></i>{label}
+              </button>
+            ))}
+          </div>
+        }
+      />
+
+      <div className="w-full max-w-4xl flex flex-wrap items-center gap-3 text-xs">
+        <span className="text-slate-400 font-mono">{size.rows}×{size.cols} · {mines.size} 雷 · {revealed.size} 条线索</span>
+        <span className="flex-1" />
+        <button onClick={validate} className={button}>
+          <i className="fa-solid fa-list-check mr-1.5"></i>检查
+        </button>
+        <button onClick={() => { const valid = validate(); if (valid) onPlay(valid); }} className={button}>
+          <i className="fa-solid fa-play mr-1.5"></i>试玩
+        </button>
+        <button
+          onClick={() => { const valid = validate(); if (valid) onSave({ ...valid, id: valid.id || `custom-${Date.now().toString(36)}` }); }}
+          className="px-3 py-1.5 rounded-lg font-semibold bg-blue-600 hover:bg-blue-500 text-white"
+        >
+          <i className="fa-solid fa-floppy-disk mr-1.5"></i>保存
+        </button>
+        <button onClick={onCancel} className={button}>返回</button>
+      </div>
+
+      <div className="w-full max-w-4xl text-sm" aria-live="polite">
+        {error && <p className="text-red-400">{error}</p>}
+        {check && check.errors.map(message => <p key={message} className="text-red-400">{message}</p>)}
+        {check && check.errors.length === 0 && check.hardest && (
+          <p className="text-emerald-300">
+            <i className="fa-solid fa-circle-check mr-1.5"></i>
+            有唯一的逻辑解，最难的一步需要{RULE_NAMES[check.hardest]}，共 {check.rounds} 轮推理。
+          </p>
+        )}
+        {check && check.undetermined.length > 0 && (
+          <p className="text-slate-400">无法确定的格子已用黄色标出，可以多揭开一些线索或调整雷的位置。</p>
+        )}
+      </div>
+    </div>
+  );
+};
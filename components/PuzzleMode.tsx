@@ -0,0 +1,276 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Board, GameStatus, Hint, Puzzle, PuzzleProgress, Settings } from '../types';
+import { RULE_NAMES } from '../constants';
+import { BUNDLED_PUZZLES } from '../puzzles';
+import { chordReveal, findHint, floodFill } from '../utils/gameLogic';
+import { checkPuzzle, isPuzzleSolved, puzzleBoard, PuzzleCheck } from '../utils/puzzle';
+import { RULE_ORDER } from '../utils/solver';
+import { formatDuration } from '../utils/stats';
+import { Stopwatch } from '../utils/stopwatch';
+import { deleteCustomPuzzle, loadCustomPuzzles, loadPuzzleProgress, recordPuzzleSolve, upsertCustomPuzzle } from '../utils/storage';
+import { BoardGrid } from './BoardGrid';
+import { ElapsedTime } from './PerformanceBar';
+import { PuzzleEditor } from './PuzzleEditor';
+
+interface PuzzleModeProps {
+  settings: Settings;
+  onExit: () => void;
+}
+
+type View =
+  | { kind: 'LIST' }
+  | { kind: 'PLAY'; puzzle: Puzzle; fromEditor: boolean }
+  | { kind: 'EDIT'; puzzle?: Puzzle };
+
+interface RankedPuzzle {
+  puzzle: Puzzle;
+  check: PuzzleCheck;
+}
+
+/** Easiest first: by the hardest technique needed, then by how many rounds of reasoning it takes. */
+const rank = (puzzles: Puzzle[]): RankedPuzzle[] => puzzles
+  .map(puzzle => ({ puzzle, check: checkPuzzle(puzzle) }))
+  .sort((a, b) =>
+    RULE_ORDER.indexOf(a.check.hardest ?? 'SINGLE') - RULE_ORDER.indexOf(b.check.hardest ?? 'SINGLE') ||
+    a.check.rounds - b.check.rounds
+  );
+
+/** A copy of the board without any hint highlighting. */
+const clearHints = (board: Board): Board =>
+  board.map(row => row.map(cell => ({ ...cell, isHinted: false, hintType: null, isPremise: false })));
+
+export const PuzzleMode: React.FC<PuzzleModeProps> = ({ settings, onExit }) => {
+  const [view, setView] = useState<View>({ kind: 'LIST' });
+  const [customs, setCustoms] = useState<Puzzle[]>(loadCustomPuzzles);
+  const [progress, setProgress] = useState<Record<string, PuzzleProgress>>(loadPuzzleProgress);
+
+  const bundled = useMemo(() => rank(BUNDLED_PUZZLES), []);
+  const custom = useMemo(() => rank(customs), [customs]);
+  const solvedCount = bundled.filter(({ puzzle }) => progress[puzzle.id]).length;
+
+  if (view.kind === 'PLAY') {
+    return (
+      <PuzzlePlay
+        key={view.puzzle.id}
+        puzzle={view.puzzle}
+        settings={settings}
+        // Trial runs from the editor are not progress on any saved puzzle
+        onSolved={view.fromEditor ? undefined : (timeMs, hintsUsed) => setProgress(recordPuzzleSolve(view.puzzle.id, timeMs, hintsUsed))}
+        onBack={() => setView(view.fromEditor ? { kind: 'EDIT', puzzle: view.puzzle } : { kind: 'LIST' })}
+      />
+    );
+  }
+
+  if (view.kind === 'EDIT') {
+    return (
+      <PuzzleEditor
+        initial={view.puzzle}
+        onSave={puzzle => { setCustoms(upsertCustomPuzzle(puzzle)); setView({ kind: 'LIST' }); }}
+        onPlay={puzzle => setView({ kind: 'PLAY', puzzle, fromEditor: true })}
+        onCancel={() => setView({ kind: 'LIST' })}
+      />
+    );
+  }
+
+  const row = ({ puzzle, check }: RankedPuzzle, editable: boolean) => {
+    const record = progress[puzzle.id];
+    return (
+      <li key={puzzle.id} className="flex flex-wrap items-center gap-3 bg-slate-900/40 rounded-xl px-4 py-2 text-sm">
+        <i className={`fa-solid ${record ? 'fa-circle-check text-emerald-400' : 'fa-circle text-slate-600'}`} aria-label={record ? '已完成' : '未完成'}></i>
+        <span className="text-white font-semibold">{puzzle.name}</span>
+        <span className="text-slate-400 font-mono text-xs">{puzzle.rows}×{puzzle.cols}/{puzzle.mines.length}</span>
+        {check.hardest && (
+          <span className="text-[10px] px-2 py-0.5 rounded-full bg-sky-500/20 text-sky-300 font-bold">{RULE_NAMES[check.hardest]}</span>
+        )}
+        {record && (
+          <span className="text-slate-500 text-xs">
+            最佳 {formatDuration(record.bestTimeMs)}{record.hintsUsed > 0 && ` · 提示 ${record.hintsUsed} 次`}
+          </span>
+        )}
+        <span className="flex-1" />
+        <button onClick={() => setView({ kind: 'PLAY', puzzle, fromEditor: false })} className="text-xs font-semibold text-blue-400 hover:text-blue-300">
+          {record ? '再玩一次' : '开始'}
+        </button>
+        {editable && (
+          <>
+            <button onClick={() => setView({ kind: 'EDIT', puzzle })} className="text-xs font-semibold text-slate-400 hover:text-white">
+              编辑
+            </button>
+            <button
+              onClick={() => { if (window.confirm(`删除谜题「${puzzle.name}」？`)) setCustoms(deleteCustomPuzzle(puzzle.id)); }}
+              className="text-xs font-semibold text-slate-500 hover:text-red-400"
+            >
+              删除
+            </button>
+          </>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="w-full max-w-4xl flex flex-col gap-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <h2 className="text-xl font-bold text-white">谜题</h2>
+        <span className="text-slate-400 text-sm">已完成 {solvedCount} / {bundled.length}</span>
+        <span className="flex-1" />
+        <button onClick={() => setView({ kind: 'EDIT' })} className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-blue-600 hover:bg-blue-500 text-white">
+          <i className="fa-solid fa-pen-ruler mr-1.5"></i>制作谜题
+        </button>
+        <button onClick={onExit} className="px-3 py-1.5 rounded-lg text-xs font-semibold border border-slate-700 text-slate-400 hover:text-white hover:bg-slate-800">
+          返回游戏
+        </button>
+      </div>
+      <p className="text-slate-400 text-sm">
+        每道谜题都只有一个解，而且不用猜：从已揭开的数字和总雷数出发，一步步推理就能揭开所有安全格。谜题按所需的最难推理技巧排序。
+      </p>
+      <ul className="flex flex-col gap-2">{bundled.map(p => row(p, false))}</ul>
+      <h3 className="text-sm font-bold text-slate-300 mt-2">我的谜题</h3>
+      {custom.length === 0 ? (
+        <p className="text-slate-500 text-sm">还没有自制谜题。在编辑器里放好雷、选好一开始揭开的格子，通过检查后即可保存。</p>
+      ) : (
+        <ul className="flex flex-col gap-2">{custom.map(p => row(p, true))}</ul>
+      )}
+    </div>
+  );
+};
+
+interface PuzzlePlayProps {
+  puzzle: Puzzle;
+  settings: Settings;
+  /** Omitted when the solve should not be recorded. */
+  onSolved?: (timeMs: number, hintsUsed: number) => void;
+  onBack: () => void;
+}
+
+const PuzzlePlay: React.FC<PuzzlePlayProps> = ({ puzzle, settings, onSolved, onBack }) => {
+  const [board, setBoard] = useState<Board>(() => puzzleBoard(puzzle));
+  const [status, setStatus] = useState(GameStatus.PLAYING);
+  const [hint, setHint] = useState<Hint | null>(null);
+  const [hintsUsed, setHintsUsed] = useState(0);
+  const stopwatchRef = useRef(new Stopwatch());
+  const stopwatch = stopwatchRef.current;
+  const flags = board.reduce((sum, r) => sum + r.filter(c => c.isFlagged).length, 0);
+
+  useEffect(() => {
+    stopwatch.start();
+    return () => stopwatch.stop();
+  }, [stopwatch]);
+
+  const restart = () => {
+    setBoard(puzzleBoard(puzzle));
+    setStatus(GameStatus.PLAYING);
+    setHint(null);
+    setHintsUsed(0);
+    stopwatch.reset();
+    stopwatch.start();
+  };
+
+  /** Applies a move to a copy of the board and ends the puzzle if it exploded or finished it. */
+  const play = (move: (next: Board) => boolean) => {
+    if (status !== GameStatus.PLAYING) return;
+    const next = clearHints(board);
+    const exploded = move(next);
+    setHint(null);
+    if (exploded) {
+      stopwatch.stop();
+      setStatus(GameStatus.LOST);
+    } else if (isPuzzleSolved(next)) {
+      stopwatch.stop();
+      next.forEach(r => r.forEach(c => { if (c.isMine) c.isFlagged = true; }));
+      setStatus(GameStatus.WON);
+      onSolved?.(stopwatch.ms, hintsUsed);
+    }
+    setBoard(next);
+  };
+
+  const reveal = (x: number, y: number) => play(next => {
+    const cell = next[x][y];
+    if (cell.isRevealed || cell.isFlagged) return false;
+    if (cell.isMine) {
+      cell.isRevealed = true;
+      return true;
+    }
+    floodFill(next, x, y);
+    return false;
+  });
+
+  const toggleFlag = (x: number, y: number) => play(next => {
+    if (!next[x][y].isRevealed) next[x][y].isFlagged = !next[x][y].isFlagged;
+    return false;
+  });
+
+  const chord = (x: number, y: number) => play(next => chordReveal(next, x, y) === 'EXPLODED');
+
+  const showHint = () => {
+    if (status !== GameStatus.PLAYING) return;
+    const found = findHint(board, puzzle.mines.length);
+    if (!found) return;
+    const next = clearHints(board);
+    next[found.x][found.y].isHinted = true;
+    next[found.x][found.y].hintType = found.type;
+    found.premises.forEach(p => { next[p.x][p.y].isPremise = true; });
+    setBoard(next);
+    setHint(found);
+    setHintsUsed(prev => prev + 1);
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-4 w-full">
+      <div className="w-full max-w-4xl flex flex-wrap items-center gap-4">
+        <h2 className="text-lg font-bold text-white">{puzzle.name}</h2>
+        <span className="text-sm font-mono text-orange-400 font-bold">
+          <i className="fa-solid fa-bomb mr-1.5"></i>{Math.max(0, puzzle.mines.length - flags)}
+        </span>
+        <ElapsedTime stopwatch={stopwatch} className="text-sm font-mono text-blue-400 font-bold" />
+        <span className="flex-1" />
+        <button onClick={restart} className="px-3 py-1.5 rounded-lg text-xs font-semibold border border-slate-700 text-slate-400 hover:text-white hover:bg-slate-800">
+          <i className="fa-solid fa-rotate-right mr-1.5"></i>重来
+        </button>
+        <button onClick={onBack} className="px-3 py-1.5 rounded-lg text-xs font-semibold border border-slate-700 text-slate-400 hover:text-white hover:bg-slate-800">
+          返回
+        </button>
+      </div>
+
+      <BoardGrid
+        board={board}
+        status={status}
+        onCellClick={reveal}
+        onCellContextMenu={(e, x, y) => { e.preventDefault(); toggleFlag(x, y); }}
+        onCellChord={chord}
+        chordGesture={settings.chordGesture}
+        onCellFlag={toggleFlag}
+        onHint={showHint}
+        onCellLongPress={toggleFlag}
+        longPressMs={settings.longPressMs}
+      />
+
+      <div className="w-full max-w-4xl bg-slate-800/40 border border-slate-700/50 p-5 rounded-xl flex items-center gap-4" aria-live="polite">
+        <button
+          onClick={showHint}
+          disabled={status !== GameStatus.PLAYING}
+          aria-label="获取提示 (H)"
+          className="flex-shrink-0 w-12 h-12 rounded-2xl flex items-center justify-center text-xl bg-blue-600 enabled:hover:bg-blue-500 text-white disabled:bg-slate-700 disabled:text-slate-500"
+        >
+          <i className="fa-solid fa-lightbulb"></i>
+        </button>
+        <div className="flex flex-col gap-1 text-sm text-slate-300">
+          {status === GameStatus.WON && (
+            <p className="text-emerald-300 font-semibold">
+              解开了！用时 {formatDuration(stopwatch.ms)}{hintsUsed > 0 && `，使用提示 ${hintsUsed} 次`}。
+            </p>
+          )}
+          {status === GameStatus.LOST && <p className="text-red-400 font-semibold">踩到雷了。这一步并不是逻辑能推出的，点「重来」再试一次。</p>}
+          {status === GameStatus.PLAYING && (hint ? (
+            <>
+              {hint.steps.map((text, i) => <p key={i}>{text}</p>)}
+              <span className="self-start text-[10px] px-2 py-0.5 rounded-full bg-sky-500/20 text-sky-300 font-bold">{RULE_NAMES[hint.rule]}</span>
+            </>
+          ) : (
+            <p>不需要猜：每个格子都能从数字和总雷数推出来。卡住时点灯泡看下一步的推理。</p>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Board, GameAction, GameActionType, Topology } from '../types';
+import { buildReplayFrames, frameStatus } from '../utils/replay';
+import { BoardGrid } from './BoardGrid';
+
+interface ReplayViewerProps {
+  initialBoard: Board;
+  actions: GameAction[];
+  topology: Topology;
+  /** Mines it took to lose the game being replayed. */
+  lives?: number;
+  onClose: () => void;
+}
+
+const ACTION_LABELS: Record<GameActionType, string> = {
+  REVEAL: '揭开',
+  FLAG: '插旗',
+  UNFLAG: '拔旗',
+  CHORD: '快速翻开',
+  HINT: '使用提示',
+  UNDO: '撤销',
+  REDO: '重做'
+};
+
+const describeAction = (action: GameAction) => {
+  const target = action.x !== undefined && action.y !== undefined ? ` 第${action.x + 1}行第${action.y + 1}列` : '';
+  return `${ACTION_LABELS[action.type]}${target} · ${(action.time / 1000).toFixed(1)}s`;
+};
+
+export const ReplayViewer: React.FC<ReplayViewerProps> = ({ initialBoard, actions, topology, lives = 1, onClose }) => {
+  const frames = useMemo(() => buildReplayFrames(initialBoard, actions, topology), [initialBoard, actions, topology]);
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const last = frames.length - 1;
+
+  useEffect(() => {
+    if (!playing) return;
+    if (index >= last) {
+      setPlaying(false);
+      return;
+    }
+    // Follow the real pace of the game, squeezed into a watchable range
+    const gap = actions[index].time - (index > 0 ? actions[index - 1].time : 0);
+    const delay = Math.min(Math.max(gap, 150), 1500);
+    const timeout = window.setTimeout(() => setIndex(i => i + 1), delay);
+    return () => clearTimeout(timeout);
+  }, [playing, index, last, actions]);
+
+  const step = (delta: number) => {
+    setPlaying(false);
+    setIndex(i => Math.min(Math.max(i + delta, 0), last));
+  };
+
+  const board = frames[index];
+
+  return (
+    <div className="flex flex-col items-center gap-4">
+      <BoardGrid board={board} status={frameStatus(board, lives)} topology={topology} />
+      <div className="w-full bg-slate-800/40 border border-slate-700/50 p-4 rounded-xl flex flex-col gap-3">
+        <div className="flex items-center gap-3">
+          <button onClick={() => step(-1)} className="w-9 h-9 rounded-lg bg-slate-700 hover:bg-slate-600 text-white" title="上一步">
+            <i className="fa-solid fa-backward-step"></i>
+          </button>
+          <button
+            onClick={() => {
+              if (index >= last) setIndex(0);
+              setPlaying(prev => !prev);
+            }}
+            className="w-9 h-9 rounded-lg bg-blue-600 hover:bg-blue-500 text-white"
+            title={playing ? '暂停' : '自动播放'}
+          >
+            <i className={`fa-solid ${playing ? 'fa-pause' : 'fa-play'}`}></i>
+          </button>
+          <button onClick={() => step(1)} className="w-9 h-9 rounded-lg bg-slate-700 hover:bg-slate-600 text-white" title="下一步">
+            <i className="fa-solid fa-forward-step"></i>
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={last}
+            value={index}
+            onChange={e => {
+              setPlaying(false);
+              setIndex(Number(e.target.value));
+            }}
+            className="flex-1 accent-blue-500"
+          />
+          <button onClick={onClose} className="px-3 py-1.5 rounded-lg text-xs font-semibold text-slate-300 border border-slate-600 hover:text-white hover:bg-slate-800">
+            关闭回放
+          </button>
+        </div>
+        <span className="text-xs text-slate-400 font-mono">
+          {index} / {last} {index > 0 ? `· ${describeAction(actions[index - 1])}` : '· 开局'}
+        </span>
+      </div>
+    </div>
+  );
+};
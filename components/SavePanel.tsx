@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { SavedGame } from '../types';
+import { DIFFICULTIES } from '../constants';
+import { formatDuration } from '../utils/stats';
+
+interface SavePanelProps {
+  slots: SavedGame[];
+  /** False when there is no game in progress that can be saved. */
+  canSave: boolean;
+  onSave: (name: string) => void;
+  /** Returns an error message when the slot cannot be resumed. */
+  onLoad: (slot: SavedGame) => string | null;
+  onDelete: (name: string) => void;
+  onClose: () => void;
+}
+
+export const SavePanel: React.FC<SavePanelProps> = ({ slots, canSave, onSave, onLoad, onDelete, onClose }) => {
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+
+  const save = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    if (slots.some(s => s.name === trimmed) && !window.confirm(`存档「${trimmed}」已存在，要覆盖吗？`)) return;
+    onSave(trimmed);
+    setName('');
+  };
+
+  const sorted = [...slots].sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+
+  return (
+    <div className="w-full max-w-4xl bg-slate-800/50 backdrop-blur-md rounded-2xl p-6 mb-6 border border-slate-700 shadow-2xl flex flex-col gap-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <form onSubmit={save} className="flex items-center gap-2 text-xs">
+          <input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder={canSave ? '存档名称' : '开局后才能存档'}
+            disabled={!canSave}
+            maxLength={40}
+            className="w-48 bg-slate-900/60 border border-slate-700 rounded-lg px-2 py-1 text-sm text-white focus:outline-none focus:border-blue-500 disabled:opacity-40"
+          />
+          <button
+            type="submit"
+            disabled={!canSave || !name.trim()}
+            className="px-3 py-1.5 rounded-lg font-semibold bg-blue-600 enabled:hover:bg-blue-500 text-white disabled:opacity-40"
+          >
+            <i className="fa-solid fa-floppy-disk mr-1.5"></i>保存当前对局
+          </button>
+        </form>
+        <button onClick={onClose} className="w-8 h-8 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800" title="关闭">
+          <i className="fa-solid fa-xmark"></i>
+        </button>
+      </div>
+
+      {message && <span className="text-xs text-slate-400">{message}</span>}
+
+      {sorted.length === 0 ? (
+        <p className="text-slate-500 text-sm">还没有存档。对局进行中会自动保存，刷新页面后自动恢复；需要保留多局时请存入存档槽。</p>
+      ) : (
+        <ul className="flex flex-col gap-2">
+          {sorted.map(slot => (
+            <li key={slot.name} className="flex flex-wrap items-center gap-3 bg-slate-900/40 rounded-xl px-4 py-2 text-sm">
+              <span className="text-white font-semibold">{slot.name}</span>
+              <span className="text-slate-400 font-mono text-xs">
+                {DIFFICULTIES[slot.difficulty]?.name} · {slot.config.rows}×{slot.config.cols}/{slot.config.mines} · {formatDuration(slot.elapsedMs)}
+              </span>
+              <span className="text-slate-500 text-xs">{new Date(slot.savedAt).toLocaleString()}</span>
+              <span className="flex-1" />
+              <button onClick={() => setMessage(onLoad(slot))} className="text-xs font-semibold text-blue-400 hover:text-blue-300">
+                读取
+              </button>
+              <button
+                onClick={() => { if (window.confirm(`删除存档「${slot.name}」？`)) onDelete(slot.name); }}
+                className="text-xs font-semibold text-slate-500 hover:text-red-400"
+              >
+                删除
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
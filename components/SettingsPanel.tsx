@@ -0,0 +1,88 @@
+import React from 'react';
+import { ChordGesture, HintProviderId, Settings } from '../types';
+import { CHORD_GESTURE_NAMES, HINT_PROVIDER_NAMES, HINT_TIMEOUT_OPTIONS, LONG_PRESS_OPTIONS } from '../constants';
+
+interface SettingsPanelProps {
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+}
+
+const inputClass = 'bg-slate-900/60 border border-slate-700 rounded-lg px-2 py-1 text-sm text-white focus:outline-none focus:border-blue-500';
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange }) => {
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-700/50 flex flex-wrap items-center gap-x-6 gap-y-3 text-xs">
+      <label className="flex items-center gap-2 text-slate-400 font-semibold">
+        快速翻开
+        <select
+          value={settings.chordGesture}
+          onChange={e => onChange({ ...settings, chordGesture: e.target.value as ChordGesture })}
+          className={inputClass}
+        >
+          {(Object.keys(CHORD_GESTURE_NAMES) as ChordGesture[]).map(gesture => (
+            <option key={gesture} value={gesture}>{CHORD_GESTURE_NAMES[gesture]}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-2 text-slate-400 font-semibold">
+        长按延迟
+        <select
+          value={settings.longPressMs}
+          onChange={e => onChange({ ...settings, longPressMs: Number(e.target.value) })}
+          className={inputClass}
+        >
+          {LONG_PRESS_OPTIONS.map(ms => (
+            <option key={ms} value={ms}>{ms === 0 ? '关闭' : `${ms} 毫秒`}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-2 text-slate-400 font-semibold">
+        提示来源
+        <select
+          value={settings.hintProvider}
+          onChange={e => onChange({ ...settings, hintProvider: e.target.value as HintProviderId })}
+          className={inputClass}
+        >
+          {(Object.keys(HINT_PROVIDER_NAMES) as HintProviderId[]).map(id => (
+            <option key={id} value={id}>{HINT_PROVIDER_NAMES[id]}</option>
+          ))}
+        </select>
+      </label>
+      {settings.hintProvider !== 'LOGIC' && (
+        <label className="flex items-center gap-2 text-slate-400 font-semibold">
+          超时
+          <select
+            value={settings.hintTimeoutMs}
+            onChange={e => onChange({ ...settings, hintTimeoutMs: Number(e.target.value) })}
+            className={inputClass}
+          >
+            {HINT_TIMEOUT_OPTIONS.map(ms => (
+              <option key={ms} value={ms}>{ms / 1000} 秒</option>
+            ))}
+          </select>
+        </label>
+      )}
+      {settings.hintProvider === 'LOCAL' && (
+        <>
+          <label className="flex items-center gap-2 text-slate-400 font-semibold">
+            地址
+            <input
+              value={settings.localEndpoint}
+              onChange={e => onChange({ ...settings, localEndpoint: e.target.value })}
+              placeholder="http://localhost:11434/v1"
+              className={`${inputClass} w-56 font-mono`}
+            />
+          </label>
+          <label className="flex items-center gap-2 text-slate-400 font-semibold">
+            模型
+            <input
+              value={settings.localModel}
+              onChange={e => onChange({ ...settings, localModel: e.target.value })}
+              className={`${inputClass} w-32 font-mono`}
+            />
+          </label>
+        </>
+      )}
+    </div>
+  );
+};
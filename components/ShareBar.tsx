@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+
+interface ShareBarProps {
+  seed: string;
+  /** Null until the first click fixes the start cell. */
+  code: string | null;
+  link: string | null;
+  /** Returns an error message when the code cannot be loaded. */
+  onLoad: (code: string) => string | null;
+}
+
+export const ShareBar: React.FC<ShareBarProps> = ({ seed, code, link, onLoad }) => {
+  const [input, setInput] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+
+  const copy = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setMessage(`${label}已复制`);
+    } catch {
+      setMessage(text);
+    }
+  };
+
+  const load = (e: React.FormEvent) => {
+    e.preventDefault();
+    const error = onLoad(input);
+    setMessage(error);
+    if (!error) setInput('');
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-700/50 flex flex-wrap items-center gap-3 text-xs">
+      <span className="text-slate-500 font-bold uppercase tracking-widest">Seed</span>
+      <span className="font-mono text-slate-300">{seed}</span>
+      <button
+        onClick={() => code && copy(code, '对局码')}
+        disabled={!code}
+        className="px-3 py-1 rounded-lg font-semibold border border-slate-700 text-slate-400 enabled:hover:text-white enabled:hover:bg-slate-800 disabled:opacity-40"
+        title={code ? code : '首次点击后生成对局码'}
+      >
+        <i className="fa-solid fa-copy mr-1.5"></i>对局码
+      </button>
+      <button
+        onClick={() => link && copy(link, '链接')}
+        disabled={!link}
+        className="px-3 py-1 rounded-lg font-semibold border border-slate-700 text-slate-400 enabled:hover:text-white enabled:hover:bg-slate-800 disabled:opacity-40"
+      >
+        <i className="fa-solid fa-link mr-1.5"></i>分享链接
+      </button>
+      <form onSubmit={load} className="flex items-center gap-2 ml-auto">
+        <input
+          value={input}
+          onChange={e => setInput(e.target.value)}
+          placeholder="粘贴对局码"
+          className="w-40 bg-slate-900/60 border border-slate-700 rounded-lg px-2 py-1 text-white font-mono focus:outline-none focus:border-blue-500"
+        />
+        <button type="submit" className="px-3 py-1 rounded-lg font-semibold bg-blue-600 hover:bg-blue-500 text-white">
+          载入
+        </button>
+      </form>
+      {message && <span className="w-full text-slate-400">{message}</span>}
+    </div>
+  );
+};
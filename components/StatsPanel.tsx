@@ -0,0 +1,165 @@
+import React, { useRef, useState } from 'react';
+import { DifficultyLevel, GameRecord, GameVariant, Topology } from '../types';
+import { DIFFICULTIES, TOPOLOGY_NAMES, VARIANT_NAMES } from '../constants';
+import { BoardSize, customSizes, exportHistory, formatDuration, leaderboard, parseHistory, summarizeStats } from '../utils/stats';
+
+interface StatsPanelProps {
+  records: GameRecord[];
+  initialDifficulty: DifficultyLevel;
+  initialTopology: Topology;
+  initialVariant: GameVariant;
+  /** The custom board size shown first; each size keeps its own stats. */
+  initialCustomSize: BoardSize;
+  onImport: (records: GameRecord[]) => void;
+  onClose: () => void;
+}
+
+export const StatsPanel: React.FC<StatsPanelProps> = ({
+  records, initialDifficulty, initialTopology, initialVariant, initialCustomSize, onImport, onClose
+}) => {
+  const [level, setLevel] = useState(initialDifficulty);
+  const [topology, setTopology] = useState(initialTopology);
+  const [variant, setVariant] = useState(initialVariant);
+  const [size, setSize] = useState(initialCustomSize);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const stats = summarizeStats(records, level, topology, variant, size);
+  const top = leaderboard(records, level, topology, variant, size);
+  const sizeKey = (s: BoardSize) => `${s.rows}x${s.cols}-${s.mines}`;
+  const sizes = [size, ...customSizes(records).filter(s => sizeKey(s) !== sizeKey(size))];
+
+  const download = () => {
+    const blob = new Blob([exportHistory(records)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `smart-minesweeper-history-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const upload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseHistory(await file.text());
+      onImport(imported);
+      setMessage(`已导入 ${imported.length} 条记录。`);
+    } catch (error) {
+      setMessage((error as Error).message);
+    }
+  };
+
+  const cards: [string, string][] = [
+    ['对局', String(stats.played)],
+    ['胜率', `${Math.round(stats.winRate * 100)}%`],
+    ['当前连胜', String(stats.currentStreak)],
+    ['最长连胜', String(stats.bestStreak)],
+    ['最佳用时', stats.bestTimeMs === null ? '—' : formatDuration(stats.bestTimeMs)],
+    ['平均用时', stats.averageTimeMs === null ? '—' : formatDuration(stats.averageTimeMs)]
+  ];
+
+  return (
+    <div className="w-full max-w-4xl bg-slate-800/50 backdrop-blur-md rounded-2xl p-6 mb-6 border border-slate-700 shadow-2xl flex flex-col gap-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex bg-slate-900/60 p-1.5 rounded-xl border border-slate-700/50">
+          {(Object.keys(DIFFICULTIES) as DifficultyLevel[]).map(l => (
+            <button
+              key={l}
+              onClick={() => setLevel(l)}
+              className={`px-3 py-1 rounded-lg text-xs font-semibold transition-all ${level === l ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+            >
+              {DIFFICULTIES[l].name}
+            </button>
+          ))}
+        </div>
+        <select
+          value={topology}
+          onChange={e => setTopology(e.target.value as Topology)}
+          aria-label="棋盘类型"
+          className="bg-slate-900/60 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-300 focus:outline-none focus:border-blue-500"
+        >
+          {(Object.keys(TOPOLOGY_NAMES) as Topology[]).map(t => <option key={t} value={t}>{TOPOLOGY_NAMES[t]}</option>)}
+        </select>
+        <select
+          value={variant}
+          onChange={e => setVariant(e.target.value as GameVariant)}
+          aria-label="玩法"
+          className="bg-slate-900/60 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-300 focus:outline-none focus:border-blue-500"
+        >
+          {(Object.keys(VARIANT_NAMES) as GameVariant[]).map(v => <option key={v} value={v}>{VARIANT_NAMES[v]}</option>)}
+        </select>
+        {level === DifficultyLevel.CUSTOM && (
+          <select
+            value={sizeKey(size)}
+            onChange={e => setSize(sizes.find(s => sizeKey(s) === e.target.value) ?? size)}
+            aria-label="自定义棋盘尺寸"
+            className="bg-slate-900/60 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-300 focus:outline-none focus:border-blue-500"
+          >
+            {sizes.map(s => <option key={sizeKey(s)} value={sizeKey(s)}>{s.rows}×{s.cols} · {s.mines} 雷</option>)}
+          </select>
+        )}
+        <div className="flex items-center gap-2 text-xs">
+          <button onClick={download} className="px-3 py-1.5 rounded-lg font-semibold border border-slate-700 text-slate-300 hover:text-white hover:bg-slate-800">
+            <i className="fa-solid fa-file-export mr-1.5"></i>导出
+          </button>
+          <button onClick={() => fileRef.current?.click()} className="px-3 py-1.5 rounded-lg font-semibold border border-slate-700 text-slate-300 hover:text-white hover:bg-slate-800">
+            <i className="fa-solid fa-file-import mr-1.5"></i>导入
+          </button>
+          <input ref={fileRef} type="file" accept="application/json,.json" onChange={upload} className="hidden" />
+          <button onClick={onClose} className="w-8 h-8 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800" title="关闭">
+            <i className="fa-solid fa-xmark"></i>
+          </button>
+        </div>
+      </div>
+
+      {message && <span className="text-xs text-slate-400">{message}</span>}
+
+      <div className="grid grid-cols-3 md:grid-cols-6 gap-3">
+        {cards.map(([label, value]) => (
+          <div key={label} className="bg-slate-900/40 rounded-xl p-3 flex flex-col items-center">
+            <span className="text-[10px] text-slate-500 uppercase tracking-widest font-bold">{label}</span>
+            <span className="text-lg font-mono text-white font-bold">{value}</span>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <span className="text-[10px] uppercase tracking-wider text-slate-500 font-bold">排行榜 · 前 10（不含撤销与导入）</span>
+        {top.length === 0 ? (
+          <p className="text-slate-500 text-sm mt-2">还没有胜局记录。</p>
+        ) : (
+          <table className="w-full mt-2 text-sm font-mono">
+            <thead>
+              <tr className="text-slate-500 text-xs text-left">
+                <th className="py-1">#</th>
+                <th>用时</th>
+                <th>3BV</th>
+                <th>点击</th>
+                <th>提示</th>
+                <th>日期</th>
+              </tr>
+            </thead>
+            <tbody>
+              {top.map((record, i) => (
+                <tr key={record.id} className="text-slate-300 border-t border-slate-700/50">
+                  <td className="py-1 text-slate-500">{i + 1}</td>
+                  <td className="text-blue-400">{formatDuration(record.timeMs)}</td>
+                  <td>{record.bbbv}</td>
+                  <td>{record.clicks}</td>
+                  <td>{record.hintsUsed}</td>
+                  <td className="text-slate-500">
+                    {record.finishedAt.slice(0, 10)}
+                    {record.daily && ' · 每日'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,374 @@
+import React, { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { Board, DifficultyLevel, GameStatus, Settings } from '../types';
+import { DIFFICULTIES } from '../constants';
+import { GameEngine } from '../utils/gameEngine';
+import { calculate3BV, calculateSolved3BV } from '../utils/gameLogic';
+import { formatSeed, randomSeed } from '../utils/random';
+import { FlagsGame, flagsReveal, flagsTarget, Player, raceResult, startFlags, VersusResult } from '../utils/versus';
+import { generateBoardInWorker } from '../services/generatorService';
+import { BoardGrid } from './BoardGrid';
+import { ElapsedTime } from './PerformanceBar';
+
+interface VersusModeProps {
+  settings: Settings;
+  onExit: () => void;
+}
+
+type VersusKind = 'RACE' | 'FLAGS';
+
+const VERSUS_NAMES: Record<VersusKind, string> = {
+  RACE: '竞速',
+  FLAGS: '夺旗'
+};
+
+const VERSUS_DESCRIPTIONS: Record<VersusKind, string> = {
+  RACE: '两人各自一块完全相同的棋盘，从同一个起点开始，先扫完的获胜；踩到雷直接判负。',
+  FLAGS: '两人轮流在同一块棋盘上揭格子。揭到雷得一分并继续行动，揭到安全格则换人；先拿到过半地雷的获胜。'
+};
+
+const PLAYER_NAMES = ['玩家一', '玩家二'];
+const PLAYER_TEXT = ['text-sky-300', 'text-rose-300'];
+const PLAYER_CURSOR = ['outline outline-2 outline-sky-400 rounded-sm z-10', 'outline outline-2 outline-rose-400 rounded-sm z-10'];
+const PLAYER_FOUND = ['outline outline-2 outline-sky-400/50 rounded-sm', 'outline outline-2 outline-rose-400/50 rounded-sm'];
+
+type Command = 'UP' | 'DOWN' | 'LEFT' | 'RIGHT' | 'REVEAL' | 'FLAG';
+
+/** One keyboard, two players; matched on `KeyboardEvent.code` so the layout does not matter. */
+const PLAYER_KEYS: { codes: Record<string, Command>; legend: string }[] = [
+  {
+    codes: { KeyW: 'UP', KeyS: 'DOWN', KeyA: 'LEFT', KeyD: 'RIGHT', KeyF: 'REVEAL', KeyG: 'FLAG' },
+    legend: 'WASD 移动 · F 揭开 · G 插旗'
+  },
+  {
+    codes: { ArrowUp: 'UP', ArrowDown: 'DOWN', ArrowLeft: 'LEFT', ArrowRight: 'RIGHT', Enter: 'REVEAL', ShiftRight: 'FLAG' },
+    legend: '方向键移动 · Enter 揭开 · 右 Shift 插旗'
+  }
+];
+
+const PRESETS = [DifficultyLevel.BEGINNER, DifficultyLevel.INTERMEDIATE, DifficultyLevel.ADVANCED];
+
+/**
+ * Sends each player's keys to `onCommand`. Listens in the capture phase and
+ * stops handled keys there, so a focused board does not act on them too.
+ */
+function usePlayerKeys(onCommand: (player: Player, command: Command) => void) {
+  const handlerRef = useRef(onCommand);
+  handlerRef.current = onCommand;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      const player = PLAYER_KEYS.findIndex(keys => keys.codes[e.code]);
+      if (player < 0) return;
+      e.preventDefault();
+      e.stopPropagation();
+      handlerRef.current(player as Player, PLAYER_KEYS[player].codes[e.code]);
+    };
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, []);
+}
+
+type Cursor = { x: number; y: number };
+
+const moveCursor = (cursor: Cursor, command: Command, rows: number, cols: number): Cursor => {
+  const dx = command === 'UP' ? -1 : command === 'DOWN' ? 1 : 0;
+  const dy = command === 'LEFT' ? -1 : command === 'RIGHT' ? 1 : 0;
+  return { x: Math.max(0, Math.min(rows - 1, cursor.x + dx)), y: Math.max(0, Math.min(cols - 1, cursor.y + dy)) };
+};
+
+/** One generated board that both players start from. */
+interface Round {
+  board: Board;
+  mines: number;
+  start: Cursor;
+  seed: number;
+}
+
+export const VersusMode: React.FC<VersusModeProps> = ({ settings, onExit }) => {
+  const [kind, setKind] = useState<VersusKind>('RACE');
+  const [level, setLevel] = useState(DifficultyLevel.BEGINNER);
+  const [round, setRound] = useState<Round | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [result, setResult] = useState<VersusResult | null>(null);
+  // Wins over the rounds played since the mode was opened
+  const [wins, setWins] = useState<[number, number]>([0, 0]);
+  const generationRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => generationRef.current?.abort(), []);
+
+  const newRound = async () => {
+    const { rows, cols, mines } = DIFFICULTIES[level];
+    const seed = randomSeed();
+    const start = { x: Math.floor(rows / 2), y: Math.floor(cols / 2) };
+    generationRef.current?.abort();
+    const controller = new AbortController();
+    generationRef.current = controller;
+    setGenerating(true);
+    setMessage(null);
+    setResult(null);
+
+    try {
+      const board = await generateBoardInWorker(
+        { rows, cols, mines, startX: start.x, startY: start.y, seed, topology: 'SQUARE' },
+        { signal: controller.signal }
+      );
+      if (board) setRound({ board, mines, start, seed });
+      else setMessage('没能生成棋盘，请再试一次。');
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') return;
+      setMessage(`生成棋盘出错了（${(error as Error).message}）。`);
+    }
+    setGenerating(false);
+  };
+
+  const finish = (winner: VersusResult) => {
+    setResult(winner);
+    if (winner !== 'DRAW') setWins(prev => (winner === 0 ? [prev[0] + 1, prev[1]] : [prev[0], prev[1] + 1]));
+  };
+
+  const leaveRound = () => {
+    if (round && result === null && !window.confirm('这一局还没有结束，确定要离开吗？')) return;
+    setRound(null);
+    setResult(null);
+  };
+
+  const button = 'px-3 py-1.5 rounded-lg text-xs font-semibold border border-slate-700 text-slate-400 enabled:hover:text-white enabled:hover:bg-slate-800 disabled:opacity-40';
+
+  return (
+    <div className="w-full max-w-6xl flex flex-col gap-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <h2 className="text-xl font-bold text-white">双人对战</h2>
+        <span className="text-sm font-mono font-bold" aria-label={`比分 ${wins[0]} 比 ${wins[1]}`}>
+          <span className={PLAYER_TEXT[0]}>{PLAYER_NAMES[0]} {wins[0]}</span>
+          <span className="text-slate-500"> : </span>
+          <span className={PLAYER_TEXT[1]}>{wins[1]} {PLAYER_NAMES[1]}</span>
+        </span>
+        <span className="flex-1" />
+        {round && <button onClick={leaveRound} className={button}>结束本局</button>}
+        <button onClick={() => { if (!round || result !== null || window.confirm('这一局还没有结束，确定要离开吗？')) onExit(); }} className={button}>
+          返回游戏
+        </button>
+      </div>
+
+      {!round ? (
+        <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700 flex flex-col gap-4 text-sm">
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="flex bg-slate-900/60 p-1 rounded-lg border border-slate-700/50" role="group" aria-label="对战模式">
+              {(Object.keys(VERSUS_NAMES) as VersusKind[]).map(k => (
+                <button
+                  key={k}
+                  onClick={() => setKind(k)}
+                  aria-pressed={kind === k}
+                  className={`px-3 py-1 rounded-md font-semibold transition-all ${kind === k ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                >
+                  {VERSUS_NAMES[k]}
+                </button>
+              ))}
+            </div>
+            <div className="flex bg-slate-900/60 p-1 rounded-lg border border-slate-700/50" role="group" aria-label="棋盘大小">
+              {PRESETS.map(l => (
+                <button
+                  key={l}
+                  onClick={() => setLevel(l)}
+                  aria-pressed={level === l}
+                  className={`px-3 py-1 rounded-md font-semibold transition-all ${level === l ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                >
+                  {DIFFICULTIES[l].name}
+                </button>
+              ))}
+            </div>
+          </div>
+          <p className="text-slate-300">{VERSUS_DESCRIPTIONS[kind]}</p>
+          <ul className="text-slate-400 text-xs flex flex-col gap-1">
+            {PLAYER_KEYS.map((keys, p) => (
+              <li key={p}><span className={`font-bold ${PLAYER_TEXT[p]}`}>{PLAYER_NAMES[p]}</span>：{keys.legend}</li>
+            ))}
+            <li>也可以用鼠标点击{kind === 'FLAGS' ? '，轮到谁就算谁的' : '自己的棋盘'}。</li>
+          </ul>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={newRound}
+              disabled={generating}
+              className="px-4 py-1.5 rounded-lg text-sm font-semibold bg-blue-600 enabled:hover:bg-blue-500 text-white disabled:opacity-40"
+            >
+              <i className={`fa-solid ${generating ? 'fa-spinner fa-spin' : 'fa-play'} mr-1.5`}></i>开始
+            </button>
+            {message && <span className="text-red-400 text-xs">{message}</span>}
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+            <span>{VERSUS_NAMES[kind]} · {DIFFICULTIES[level].name} · 种子 <span className="font-mono text-slate-300">{formatSeed(round.seed)}</span></span>
+            {result !== null && (
+              <>
+                <span className="text-base font-bold text-white">
+                  {result === 'DRAW' ? '平局！' : <><span className={PLAYER_TEXT[result]}>{PLAYER_NAMES[result]}</span>获胜！</>}
+                </span>
+                <button onClick={newRound} disabled={generating} className={button}>
+                  <i className="fa-solid fa-rotate-right mr-1.5"></i>再来一局
+                </button>
+              </>
+            )}
+          </div>
+          {kind === 'RACE'
+            ? <RaceRound key={round.seed} round={round} settings={settings} onFinish={finish} />
+            : <FlagsRound key={round.seed} round={round} onFinish={finish} />}
+        </>
+      )}
+    </div>
+  );
+};
+
+interface RoundProps {
+  round: Round;
+  onFinish: (result: VersusResult) => void;
+}
+
+const RaceRound: React.FC<RoundProps & { settings: Settings }> = ({ round, settings, onFinish }) => {
+  const [engines, setEngines] = useState<[GameEngine, GameEngine] | null>(null);
+
+  // Created here rather than during render so that a discarded render never leaves one running
+  useEffect(() => {
+    const pair = [0, 1].map(() => new GameEngine(
+      { rows: round.board.length, cols: round.board[0].length, mines: round.mines, seed: round.seed },
+      { generate: async () => round.board, undoable: false }
+    )) as [GameEngine, GameEngine];
+    pair.forEach(engine => engine.start(round.start.x, round.start.y));
+    setEngines(pair);
+    return () => pair.forEach(engine => engine.dispose());
+  }, [round]);
+
+  return engines && <RaceBoards engines={engines} settings={settings} start={round.start} onFinish={onFinish} />;
+};
+
+interface RaceBoardsProps {
+  engines: [GameEngine, GameEngine];
+  settings: Settings;
+  start: Cursor;
+  onFinish: (result: VersusResult) => void;
+}
+
+const RaceBoards: React.FC<RaceBoardsProps> = ({ engines, settings, start, onFinish }) => {
+  const states = [
+    useSyncExternalStore(engines[0].subscribe, engines[0].getState),
+    useSyncExternalStore(engines[1].subscribe, engines[1].getState)
+  ];
+  const [cursors, setCursors] = useState<[Cursor, Cursor]>([start, start]);
+  const result = raceResult([states[0].status, states[1].status]);
+  const rows = states[0].board.length;
+  const cols = states[0].board[0]?.length ?? 0;
+
+  useEffect(() => {
+    if (result === null) return;
+    engines.forEach(engine => engine.stopwatch.stop());
+    onFinish(result);
+  }, [result]);
+
+  const play = (player: Player, type: 'REVEAL' | 'FLAG' | 'CHORD', x: number, y: number) => {
+    if (result !== null) return;
+    const engine = engines[player];
+    // Revealing a revealed number chords it, as a plain click does by default
+    if (type === 'REVEAL' && engine.getState().board[x][y].isRevealed) engine.dispatch({ type: 'CHORD', x, y });
+    else engine.dispatch({ type, x, y });
+  };
+
+  usePlayerKeys((player, command) => {
+    const cursor = cursors[player];
+    if (command === 'REVEAL' || command === 'FLAG') {
+      play(player, command, cursor.x, cursor.y);
+      return;
+    }
+    const next: [Cursor, Cursor] = [...cursors];
+    next[player] = moveCursor(cursor, command, rows, cols);
+    setCursors(next);
+  });
+
+  return (
+    <div className="flex flex-wrap justify-center gap-6">
+      {states.map((state, p) => {
+        const player = p as Player;
+        const initial = state.initialBoard;
+        return (
+          <div key={p} className="flex flex-col items-center gap-2">
+            <div className="flex items-center gap-4 text-sm font-mono" aria-live="polite">
+              <span className={`font-bold ${PLAYER_TEXT[p]}`}>{PLAYER_NAMES[p]}</span>
+              <ElapsedTime stopwatch={engines[p].stopwatch} className="text-blue-400 font-bold" />
+              {initial && <span className="text-slate-400">3BV {calculateSolved3BV(state.board)}/{calculate3BV(initial)}</span>}
+              {state.status === GameStatus.LOST && <span className="text-red-400 font-bold">踩雷</span>}
+              {state.status === GameStatus.WON && <span className="text-emerald-300 font-bold">完成</span>}
+            </div>
+            <BoardGrid
+              board={state.board}
+              status={state.status}
+              onCellClick={(x, y) => play(player, 'REVEAL', x, y)}
+              onCellContextMenu={(e, x, y) => { e.preventDefault(); play(player, 'FLAG', x, y); }}
+              onCellChord={(x, y) => play(player, 'CHORD', x, y)}
+              chordGesture={settings.chordGesture}
+              markers={[{ ...cursors[p], className: PLAYER_CURSOR[p] }]}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const FlagsRound: React.FC<RoundProps> = ({ round, onFinish }) => {
+  const [game, setGame] = useState<FlagsGame>(() => startFlags(round.board, round.start.x, round.start.y));
+  const [cursors, setCursors] = useState<[Cursor, Cursor]>([round.start, round.start]);
+  const rows = game.board.length;
+  const cols = game.board[0].length;
+  const { mines } = round;
+
+  useEffect(() => {
+    if (game.result !== null) onFinish(game.result);
+  }, [game.result]);
+
+  const reveal = (x: number, y: number) => setGame(prev => flagsReveal(prev, x, y));
+
+  usePlayerKeys((player, command) => {
+    if (command === 'FLAG') return;
+    if (command === 'REVEAL') {
+      // Only the player whose turn it is may open a cell
+      if (player === game.turn) reveal(cursors[player].x, cursors[player].y);
+      return;
+    }
+    const next: [Cursor, Cursor] = [...cursors];
+    next[player] = moveCursor(cursors[player], command, rows, cols);
+    setCursors(next);
+  });
+
+  const markers = [
+    ...[...game.finders].map(([index, player]) => ({ x: Math.floor(index / cols), y: index % cols, className: PLAYER_FOUND[player] })),
+    ...cursors.map((cursor, p) => ({ ...cursor, className: PLAYER_CURSOR[p] }))
+  ];
+  // Drawn as a lost game once over, which uncovers the mines nobody found
+  const status = game.result === null ? GameStatus.PLAYING : GameStatus.LOST;
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <div className="flex flex-wrap items-center justify-center gap-6 text-sm font-mono" aria-live="polite">
+        {PLAYER_NAMES.map((name, p) => (
+          <span
+            key={p}
+            className={`px-3 py-1 rounded-lg border ${game.turn === p && game.result === null ? 'border-current bg-slate-800' : 'border-transparent'} ${PLAYER_TEXT[p]}`}
+          >
+            <span className="font-bold">{name}</span> {game.scores[p]} 颗
+            {game.turn === p && game.result === null && <span className="ml-2 text-xs">← 轮到你</span>}
+          </span>
+        ))}
+        <span className="text-slate-400">先到 {flagsTarget(mines)} 颗获胜 · 剩余 {mines - game.finders.size} 颗</span>
+      </div>
+      <BoardGrid
+        board={game.board}
+        status={status}
+        onCellClick={reveal}
+        onCellContextMenu={e => e.preventDefault()}
+        markers={markers}
+      />
+    </div>
+  );
+};
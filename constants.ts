@@ -1,5 +1,7 @@
 
-import { DifficultyLevel, DifficultyConfig } from './types';
+import {
+  DifficultyLevel, DifficultyConfig, DeductionRule, Settings, ChordGesture, HintProviderId, Topology, LogicRating, GameVariant
+} from './types';
 
 export const DIFFICULTIES: Record<DifficultyLevel, DifficultyConfig> = {
   [DifficultyLevel.BEGINNER]: {
@@ -19,9 +21,32 @@ export const DIFFICULTIES: Record<DifficultyLevel, DifficultyConfig> = {
     rows: 16,
     cols: 30,
     mines: 99
+  },
+  // Starting values for the custom board; the player's last choice is persisted separately
+  [DifficultyLevel.CUSTOM]: {
+    name: '自定义',
+    rows: 24,
+    cols: 24,
+    mines: 120
   }
 };
 
+export const CUSTOM_LIMITS = {
+  minSize: 5,
+  maxRows: 30,
+  maxCols: 50,
+  // No-guess layouts become vanishingly rare above roughly a quarter of the board
+  maxDensity: 0.25,
+  // The first click and its eight neighbours never hold a mine
+  safeZone: 9
+};
+
+export const PUZZLE_LIMITS = {
+  minSize: 5,
+  // Checking a puzzle runs the full solver, which slows down sharply on large open frontiers
+  maxSize: 16
+};
+
 export const COLORS = {
   1: 'text-blue-400',
   2: 'text-green-400',
@@ -32,3 +57,100 @@ export const COLORS = {
   7: 'text-pink-400',
   8: 'text-gray-400'
 };
+
+export const RULE_NAMES: Record<DeductionRule, string> = {
+  SINGLE: '单格规则',
+  SUBSET: '子集规则',
+  OVERLAP: '重叠规则',
+  ENUMERATION: '穷举推理',
+  GLOBAL: '总雷数推理'
+};
+
+export const LOGIC_RATING_NAMES: Record<LogicRating, string> = {
+  EASY: '轻松',
+  TRICKY: '棘手',
+  FIENDISH: '烧脑'
+};
+
+export const LOGIC_RATING_DESCRIPTIONS: Record<LogicRating, string> = {
+  EASY: '只用单格规则和简单的子集规则，非平凡推理不到 10 步。',
+  TRICKY: '需要重叠规则，或 10 步以上的子集推理链。',
+  FIENDISH: '需要穷举或总雷数推理，或 30 步以上的非平凡推理。'
+};
+
+/** Non-trivial deductions from which a board counts as TRICKY, and as FIENDISH. */
+export const LOGIC_RATING_THRESHOLDS = { tricky: 10, fiendish: 30 };
+
+export const DEFAULT_SETTINGS: Settings = {
+  chordGesture: 'CLICK',
+  longPressMs: 400,
+  hintProvider: 'LOGIC',
+  localEndpoint: 'http://localhost:11434/v1',
+  localModel: 'llama3.1',
+  hintTimeoutMs: 20000
+};
+
+export const HINT_PROVIDER_NAMES: Record<HintProviderId, string> = {
+  LOGIC: '逻辑求解器（离线）',
+  GEMINI: 'Gemini（在线）',
+  LOCAL: '本地模型（OpenAI 兼容）'
+};
+
+export const HINT_TIMEOUT_OPTIONS = [5000, 10000, 20000, 60000];
+
+export const LONG_PRESS_OPTIONS = [0, 250, 400, 600, 800];
+
+export const ZOOM_LIMITS = { min: 0.5, max: 2.5, step: 0.25 };
+
+export const TOPOLOGY_NAMES: Record<Topology, string> = {
+  SQUARE: '经典',
+  TORUS: '环面',
+  HEX: '六边形',
+  KNIGHT: '马步'
+};
+
+export const TOPOLOGY_DESCRIPTIONS: Record<Topology, string> = {
+  SQUARE: '数字表示周围 8 格中的雷数。',
+  TORUS: '棋盘首尾相接：最左列与最右列相邻，最上行与最下行相邻。',
+  HEX: '六边形格子，数字表示相邻 6 格中的雷数。',
+  KNIGHT: '数字表示按国际象棋马步（日字）能跳到的 8 格中的雷数。'
+};
+
+/** Mines it takes to lose a game; every one before that is survived and marked. */
+export const VARIANT_LIVES: Record<GameVariant, number> = {
+  CLASSIC: 1,
+  LIVES: 3,
+  NO_FLAG: 1,
+  BLITZ: 1
+};
+
+/**
+ * Blitz clock: the countdown starts at `baseMs` plus `perMineMs` for every
+ * mine on the board, and each opening cleared after the first click adds
+ * `bonusMs`.
+ */
+export const BLITZ_TIME = { baseMs: 20000, perMineMs: 1000, bonusMs: 5000 };
+
+export const VARIANT_NAMES: Record<GameVariant, string> = {
+  CLASSIC: '经典',
+  LIVES: '多命',
+  NO_FLAG: '无旗',
+  BLITZ: '限时'
+};
+
+export const VARIANT_DESCRIPTIONS: Record<GameVariant, string> = {
+  CLASSIC: '踩中一颗雷即结束。',
+  LIVES: `可以踩中 ${VARIANT_LIVES.LIVES - 1} 颗雷，踩中的雷会标记出来；第 ${VARIANT_LIVES.LIVES} 颗才结束。`,
+  NO_FLAG: '不能插旗，只靠揭开格子解完棋盘，单独计分。',
+  BLITZ: `倒计时 ${BLITZ_TIME.baseMs / 1000} 秒起，每颗雷加 ${BLITZ_TIME.perMineMs / 1000} 秒，每清出一片空白区域再加 ${BLITZ_TIME.bonusMs / 1000} 秒；时间到即结束，不能撤销。`
+};
+
+export const CHORD_GESTURE_NAMES: Record<ChordGesture, string> = {
+  CLICK: '左键点击数字',
+  MIDDLE: '中键点击数字',
+  BOTH: '左右键同时按下',
+  OFF: '关闭'
+};
+
+/** Pause between the moves of the auto-solver, so they can be followed. */
+export const AUTO_SOLVE_STEP_MS = 200;
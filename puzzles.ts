@@ -0,0 +1,80 @@
+import { Puzzle } from './types';
+import { parseBoardText } from './utils/boardFile';
+
+/** Written in the plain-text board format; the revealed digits are the clues. */
+const puzzle = (id: string, name: string, text: string): Puzzle => {
+  const { rows, cols, mines, revealed } = parseBoardText(text);
+  return { id, name, rows, cols, mines, revealed };
+};
+
+/**
+ * Example puzzles, each with a unique logical solution. PuzzleMode ranks
+ * them by the hardest technique their solution needs.
+ */
+export const BUNDLED_PUZZLES: Puzzle[] = [
+  puzzle('builtin-01', '热身', `
+*.11.
+*..*1
+..111
+..111
+..2*.
+.*2..`),
+  puzzle('builtin-02', '边角', `
+...1..
+*21.*1
+2*.1..
+22.1.*
+.*2*3*`),
+  puzzle('builtin-03', '包含', `
+..1..
+.*...
+.....
+1..*.
+*3*21
+2*...`),
+  puzzle('builtin-04', '双雷', `
+.2**2.
+.*.*2.
+*.....
+*.....
+...*..`),
+  puzzle('builtin-05', '交错', `
+12*21
+1*3.*
+1.*21
+.1.2.
+11.*.
+*....
+..**.`),
+  puzzle('builtin-06', '夹缝', `
+11....
+.*.1.*
+.2.*.2
+*.2..*
+**1...`),
+  puzzle('builtin-07', '枚举', `
+.*11*
+*..11
+*2.1.
+.1.*.
+....1`),
+  puzzle('builtin-08', '连锁', `
+....*
+...*.
+1*32.
+.3.*2
+.***.
+.2..1`),
+  puzzle('builtin-09', '清点', `
+..*..
+.3*..
+*....
+.....
+...*1`),
+  puzzle('builtin-10', '最后一颗', `
+.....1
+*....*
+*3....
+*2.*2.
+.....*`)
+];
@@ -0,0 +1,100 @@
+/**
+ * Plays seeded games with the autoplayer at every preset difficulty and
+ * reports how the generator and the solver hold up:
+ *
+ *   npm run benchmark -- [--games N] [--seed S]
+ *
+ * Game i uses seed S + i for both the start cell and the layout, so a run
+ * can be repeated exactly. Boards are generated on this thread and timed.
+ */
+import { DifficultyLevel, GameStatus } from '../types';
+import { DIFFICULTIES } from '../constants';
+import { MAX_GENERATION_ATTEMPTS, generateGuaranteedBoard } from '../utils/gameLogic';
+import { GameEngine } from '../utils/gameEngine';
+import { playOut } from '../utils/autoplayer';
+import { createRandom } from '../utils/random';
+
+interface Summary {
+  games: number;
+  won: number;
+  guesses: number;
+  attempts: number;
+  generationMs: number;
+  slowestMs: number;
+  capped: number;
+}
+
+function readOption(name: string, fallback: number): number {
+  const i = process.argv.indexOf(`--${name}`);
+  if (i < 0) return fallback;
+  const value = Number(process.argv[i + 1]);
+  if (!Number.isInteger(value) || value < 0) {
+    console.error(`--${name} needs a non-negative integer`);
+    process.exit(1);
+  }
+  return value;
+}
+
+async function benchmark(level: DifficultyLevel, games: number, baseSeed: number): Promise<Summary> {
+  const { rows, cols, mines } = DIFFICULTIES[level];
+  const summary: Summary = { games, won: 0, guesses: 0, attempts: 0, generationMs: 0, slowestMs: 0, capped: 0 };
+
+  for (let i = 0; i < games; i++) {
+    const seed = baseSeed + i;
+    const pick = createRandom(seed);
+    const startX = Math.floor(pick() * rows);
+    const startY = Math.floor(pick() * cols);
+
+    let attempts = 0;
+    const began = performance.now();
+    const board = generateGuaranteedBoard(rows, cols, mines, startX, startY, {
+      random: createRandom(seed),
+      onProgress: attempt => { attempts = attempt; }
+    });
+    const spent = performance.now() - began;
+    summary.attempts += attempts;
+    summary.generationMs += spent;
+    summary.slowestMs = Math.max(summary.slowestMs, spent);
+    if (!board) {
+      summary.capped++;
+      continue;
+    }
+
+    const engine = new GameEngine({ rows, cols, mines, seed }, { generate: async () => board });
+    await engine.start(startX, startY);
+    const result = playOut(engine);
+    engine.dispose();
+    if (result.outcome === GameStatus.WON) summary.won++;
+    summary.guesses += result.guesses;
+  }
+  return summary;
+}
+
+const games = readOption('games', 100);
+const seed = readOption('seed', 1);
+const levels = (Object.keys(DIFFICULTIES) as DifficultyLevel[]).filter(level => level !== DifficultyLevel.CUSTOM);
+
+const header = ['Difficulty', 'Games', 'Win rate', 'Guesses/game', 'Attempts/game', 'Gen ms/game', 'Slowest ms', `Hit ${MAX_GENERATION_ATTEMPTS} cap`];
+const rows: string[][] = [];
+for (const level of levels) {
+  const s = await benchmark(level, games, seed);
+  const played = s.games - s.capped;
+  const { rows: r, cols: c, mines: m } = DIFFICULTIES[level];
+  rows.push([
+    `${level} ${r}x${c}/${m}`,
+    String(s.games),
+    played > 0 ? `${(s.won / played * 100).toFixed(1)}%` : '-',
+    played > 0 ? (s.guesses / played).toFixed(2) : '-',
+    s.games > 0 ? (s.attempts / s.games).toFixed(1) : '-',
+    s.games > 0 ? (s.generationMs / s.games).toFixed(1) : '-',
+    s.slowestMs.toFixed(1),
+    `${s.capped} (${s.games > 0 ? (s.capped / s.games * 100).toFixed(1) : '0.0'}%)`
+  ]);
+}
+
+const widths = header.map((h, i) => Math.max(h.length, ...rows.map(row => row[i].length)));
+const line = (cells: string[]) => cells.map((cell, i) => (i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]))).join('  ');
+console.log(`${games} games per difficulty, seeds ${seed}-${seed + games - 1}`);
+console.log(line(header));
+console.log(widths.map(w => '-'.repeat(w)).join('  '));
+rows.forEach(row => console.log(line(row)));
@@ -1,42 +1,34 @@
-
 import { GoogleGenAI } from "@google/genai";
-import { Board } from "../types";
+import { Board, Topology } from "../types";
+import { buildHintPrompt, HINT_SCHEMA } from "./hintPrompt";
 
-export const getHintFromGemini = async (board: Board, minesRemaining: number): Promise<string> => {
+/** Asks Gemini for a move; resolves to the raw JSON text of an AiSuggestion. */
+export const getHintFromGemini = async (
+  board: Board,
+  minesRemaining: number,
+  topology: Topology,
+  signal?: AbortSignal
+): Promise<string> => {
   // Always use the process.env.API_KEY directly as per guidelines
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  // Condense board state to save tokens
-  const simplifiedBoard = board.map(row => 
-    row.map(c => {
-      if (c.isRevealed) return c.neighborCount.toString();
-      if (c.isFlagged) return 'F';
-      return '?';
-    }).join('')
-  ).join('\n');
-
-  const prompt = `
-    Analyze this Minesweeper board. '?' is hidden, 'F' is flagged, numbers are neighbor mine counts.
-    Total mines remaining: ${minesRemaining}
-    Board:
-    ${simplifiedBoard}
-    
-    Give a concise, strategic tip for the next move or a general logical deduction. Keep it under 2 sentences.
-  `;
 
   try {
     const response = await ai.models.generateContent({
       // Use gemini-3-pro-preview for complex reasoning tasks like game logic analysis
       model: "gemini-3-pro-preview",
-      contents: prompt,
+      contents: buildHintPrompt(board, minesRemaining, topology),
       config: {
-        thinkingConfig: { thinkingBudget: 0 }
+        thinkingConfig: { thinkingBudget: 0 },
+        responseMimeType: "application/json",
+        responseJsonSchema: HINT_SCHEMA,
+        abortSignal: signal
       }
     });
     // Directly access the .text property
-    return response.text || "AI currently unavailable. Use your logic!";
+    return response.text ?? "";
   } catch (error) {
-    console.error("Gemini Hint Error:", error);
-    return "Error contacting Gemini. Please try again later.";
+    // Cancellation is the caller's decision, not a failure to report
+    if (!signal?.aborted) console.error("Gemini Hint Error:", error);
+    throw error;
   }
 };
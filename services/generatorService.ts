@@ -0,0 +1,51 @@
+import { Board } from "../types";
+import type { GenerateRequest, GenerateResponse } from "../workers/generator.worker";
+
+interface GenerateBoardOptions {
+  onProgress?: (attempt: number, maxAttempts: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs `generateGuaranteedBoard` in a Web Worker so the UI stays responsive.
+ * Resolves to null when no solvable layout was found; aborting the signal
+ * terminates the worker and rejects with an AbortError.
+ */
+export const generateBoardInWorker = (request: GenerateRequest, options: GenerateBoardOptions = {}): Promise<Board | null> => {
+  const { onProgress, signal } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Board generation cancelled", "AbortError"));
+      return;
+    }
+
+    const worker = new Worker(new URL("../workers/generator.worker.ts", import.meta.url), { type: "module" });
+    const abort = () => {
+      worker.terminate();
+      reject(new DOMException("Board generation cancelled", "AbortError"));
+    };
+    signal?.addEventListener("abort", abort, { once: true });
+
+    const finish = () => {
+      signal?.removeEventListener("abort", abort);
+      worker.terminate();
+    };
+
+    worker.onmessage = (e: MessageEvent<GenerateResponse>) => {
+      if (e.data.type === "progress") {
+        onProgress?.(e.data.attempt, e.data.maxAttempts);
+        return;
+      }
+      finish();
+      resolve(e.data.board);
+    };
+
+    worker.onerror = (e: ErrorEvent) => {
+      finish();
+      reject(new Error(e.message || "Board generation worker failed"));
+    };
+
+    worker.postMessage(request);
+  });
+};
@@ -0,0 +1,65 @@
+import { AiSuggestion, Board, Topology } from "../types";
+
+/** JSON schema of an AiSuggestion, for providers that support structured output. */
+export const HINT_SCHEMA = {
+  type: "object",
+  properties: {
+    row: { type: "integer", description: "1-based row of the target cell" },
+    col: { type: "integer", description: "1-based column of the target cell" },
+    action: { type: "string", enum: ["REVEAL", "FLAG"] },
+    reasoning: { type: "string", description: "One or two sentences explaining the move" }
+  },
+  required: ["row", "col", "action", "reasoning"],
+  additionalProperties: false
+};
+
+/** The board condensed to one text line per row, to save tokens. */
+export const serializeBoard = (board: Board): string =>
+  board.map(row =>
+    row.map(c => {
+      // A mine that went off in a lives game is flagged as well, and reads as one
+      if (c.isFlagged) return 'F';
+      if (c.isRevealed) return c.neighborCount.toString();
+      return '?';
+    }).join('')
+  ).join('\n');
+
+/** How the numbers count, for boards that are not the classic square grid. */
+const ADJACENCY: Record<Topology, string> = {
+  SQUARE: "",
+  TORUS: "The board wraps around: the first and last rows are adjacent, and so are the first and last columns.",
+  HEX: "Cells are hexagons in offset rows: even rows (row 2, 4, ...) are shifted half a cell to the right, so each cell has 6 neighbors.",
+  KNIGHT: "A cell's neighbors are the 8 cells a chess knight could jump to from it, not the 8 surrounding cells."
+};
+
+/** The prompt shared by every language-model hint provider. */
+export const buildHintPrompt = (board: Board, minesRemaining: number, topology: Topology = "SQUARE"): string => `
+    Analyze this Minesweeper board. '?' is hidden, 'F' is flagged, numbers are neighbor mine counts.
+    Rows and columns are numbered from 1, starting at the top left. ${ADJACENCY[topology]}
+    Total mines remaining: ${minesRemaining}
+    Board:
+    ${serializeBoard(board)}
+    
+    Pick the single best next move on a hidden '?' cell: REVEAL it if it is safe, FLAG it if it is a mine.
+    Prefer moves that follow with certainty from the numbers. Explain the logic in under 2 sentences.
+    Answer with JSON only: {"row": number, "col": number, "action": "REVEAL" | "FLAG", "reasoning": string}
+  `;
+
+/**
+ * Reads a model's answer as an AiSuggestion, tolerating a Markdown code
+ * fence around the JSON. Returns null when the shape is wrong.
+ */
+export const parseHintResponse = (text: string): AiSuggestion | null => {
+  const json = text.replace(/^\s*```(?:json)?\s*/i, "").replace(/\s*```\s*$/, "");
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (typeof data !== "object" || data === null) return null;
+  const { row, col, action, reasoning } = data as Record<string, unknown>;
+  if (!Number.isInteger(row) || !Number.isInteger(col)) return null;
+  if (action !== "REVEAL" && action !== "FLAG") return null;
+  return { row: row as number, col: col as number, action, reasoning: typeof reasoning === "string" ? reasoning : "" };
+};
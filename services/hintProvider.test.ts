@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HintProvider, HintRequest, HintResult, createMockHintProvider, logicHintProvider, requestHint } from "./hintProvider";
+import { boardFromMines, createEmptyBoard } from "../utils/gameLogic";
+
+const request: HintRequest = { board: createEmptyBoard(5, 5), totalMines: 3 };
+const answer: HintResult = { kind: "TEXT", text: "mock" };
+
+/** The mock provider, keeping the signal `requestHint` hands it. */
+const spyingProvider = (delayMs: number) => {
+  const mock = createMockHintProvider([answer], delayMs);
+  const seen: { signal?: AbortSignal } = {};
+  const provider: HintProvider = {
+    ...mock,
+    getHint: (hintRequest, signal) => {
+      seen.signal = signal;
+      return mock.getHint(hintRequest, signal);
+    }
+  };
+  return { provider, seen };
+};
+
+describe("requestHint", () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it("resolves with the provider's answer when it arrives before the deadline", async () => {
+    const { provider, seen } = spyingProvider(100);
+    const result = requestHint(provider, request, { timeoutMs: 1000 });
+
+    await vi.advanceTimersByTimeAsync(100);
+    await expect(result).resolves.toEqual(answer);
+    expect(seen.signal?.aborted).toBe(false);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("rejects with a TimeoutError and aborts the provider once the deadline passes", async () => {
+    const { provider, seen } = spyingProvider(5000);
+    const result = requestHint(provider, request, { timeoutMs: 1000 });
+    const settled = expect(result).rejects.toMatchObject({ name: "TimeoutError" });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await settled;
+    expect(seen.signal?.aborted).toBe(true);
+    // The provider's own timer went with its request
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("rejects with an AbortError when the caller cancels", async () => {
+    const { provider, seen } = spyingProvider(5000);
+    const controller = new AbortController();
+    const result = requestHint(provider, request, { signal: controller.signal, timeoutMs: 1000 });
+    const settled = expect(result).rejects.toMatchObject({ name: "AbortError" });
+
+    await vi.advanceTimersByTimeAsync(10);
+    controller.abort();
+    await settled;
+    expect(seen.signal?.aborted).toBe(true);
+  });
+
+  it("does not ask the provider at all when already cancelled", async () => {
+    const { provider, seen } = spyingProvider(0);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(requestHint(provider, request, { signal: controller.signal, timeoutMs: 1000 }))
+      .rejects.toMatchObject({ name: "AbortError" });
+    expect(seen.signal).toBeUndefined();
+  });
+
+  it("removes its abort listener from the caller's signal once the request settles", async () => {
+    const { provider } = spyingProvider(100);
+    const controller = new AbortController();
+    const add = vi.spyOn(controller.signal, "addEventListener");
+    const remove = vi.spyOn(controller.signal, "removeEventListener");
+
+    const result = requestHint(provider, request, { signal: controller.signal, timeoutMs: 1000 });
+    await vi.advanceTimersByTimeAsync(100);
+    await result;
+
+    expect(add).toHaveBeenCalledTimes(1);
+    expect(remove).toHaveBeenCalledWith("abort", add.mock.calls[0][1]);
+    // A late cancel has nothing left to reject
+    controller.abort();
+    await expect(result).resolves.toEqual(answer);
+  });
+});
+
+describe("createMockHintProvider", () => {
+  it("answers with each response in turn and repeats the last", async () => {
+    const second: HintResult = { kind: "TEXT", text: "second" };
+    const provider = createMockHintProvider([answer, second]);
+    const signal = new AbortController().signal;
+
+    expect(await provider.getHint(request, signal)).toEqual(answer);
+    expect(await provider.getHint(request, signal)).toEqual(second);
+    expect(await provider.getHint(request, signal)).toEqual(second);
+  });
+});
+
+describe("logicHintProvider", () => {
+  /** 1 ▢ 1 ▢ with the mine second: only a mine is forced until it counts as known. */
+  const board = () => {
+    const cells = boardFromMines(1, 4, [1]);
+    cells[0][0].isRevealed = true;
+    cells[0][2].isRevealed = true;
+    return cells;
+  };
+  const signal = new AbortController().signal;
+
+  it("points out the forced mine when flags are allowed", async () => {
+    const result = await logicHintProvider.getHint({ board: board(), totalMines: 1 }, signal);
+    expect(result).toMatchObject({ kind: "DEDUCTION", hint: { x: 0, y: 1, type: "MINE" } });
+  });
+
+  it("keeps deduced mines in mind and suggests the next safe cell when flags are not", async () => {
+    const result = await logicHintProvider.getHint({ board: board(), totalMines: 1, canFlag: false }, signal);
+    expect(result).toMatchObject({ kind: "DEDUCTION", hint: { x: 0, y: 3, type: "SAFE" } });
+    if (result.kind !== "DEDUCTION") return;
+    expect(result.hint.steps[0]).toContain("第1行第2列");
+    expect(result.hint.steps.join("")).not.toContain("插旗");
+  });
+});
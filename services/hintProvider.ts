@@ -0,0 +1,146 @@
+import { AiHint, Board, Hint, HintProviderId, Settings, Topology } from "../types";
+import { HINT_PROVIDER_NAMES } from "../constants";
+import { findHint } from "../utils/gameLogic";
+import { computeMineProbabilities, findSafestGuess } from "../utils/probability";
+import { verifySuggestion } from "../utils/verifyHint";
+import { getHintFromGemini } from "./geminiService";
+import { parseHintResponse } from "./hintPrompt";
+import { getHintFromLocalModel } from "./localModelService";
+
+export interface HintRequest {
+  board: Board;
+  totalMines: number;
+  /** Absent means SQUARE. */
+  topology?: Topology;
+  /** False when the variant forbids flags, so only safe cells are worth suggesting. Absent means true. */
+  canFlag?: boolean;
+}
+
+export type HintResult =
+  /** A forced move, with the solver's explanation. */
+  | { kind: "DEDUCTION"; hint: Hint }
+  /** No forced move exists; the cell least likely to be a mine. */
+  | { kind: "GUESS"; x: number; y: number; probability: number; exact: boolean }
+  /** A language model's move that survived verification. */
+  | { kind: "AI"; hint: AiHint }
+  /** A message instead of a move, e.g. why an AI answer was rejected. */
+  | { kind: "TEXT"; text: string };
+
+export interface HintProvider {
+  id: HintProviderId | "MOCK";
+  name: string;
+  /** Must stop work and reject once `signal` is aborted. */
+  getHint: (request: HintRequest, signal: AbortSignal) => Promise<HintResult>;
+}
+
+const minesRemaining = ({ board, totalMines }: HintRequest) =>
+  totalMines - board.reduce((sum, row) => sum + row.filter(c => c.isFlagged).length, 0);
+
+/** The built-in solver: a forced move when there is one, otherwise the safest guess. */
+export const logicHintProvider: HintProvider = {
+  id: "LOGIC",
+  name: HINT_PROVIDER_NAMES.LOGIC,
+  getHint: async ({ board, totalMines, topology, canFlag }) => {
+    const hint = findHint(board, totalMines, topology, canFlag);
+    if (hint) return { kind: "DEDUCTION", hint };
+
+    const odds = computeMineProbabilities(board, totalMines, topology);
+    const guess = odds && findSafestGuess(odds);
+    if (guess) return { kind: "GUESS", ...guess, exact: odds.exact };
+
+    return { kind: "TEXT", text: "当前局面自相矛盾，可能有旗子插错了。试试撤销或拔掉可疑的旗子。" };
+  }
+};
+
+/** Turns a language model's raw answer into a verified move, or says why it cannot be used. */
+const checkAnswer = (request: HintRequest, answer: string): HintResult => {
+  const suggestion = parseHintResponse(answer);
+  if (!suggestion) return { kind: "TEXT", text: "AI 的回答不是有效的走法，已忽略。" };
+  const verification = verifySuggestion(request.board, request.totalMines, suggestion, request.topology);
+  return "hint" in verification ? { kind: "AI", hint: verification.hint } : { kind: "TEXT", text: verification.rejected };
+};
+
+export const geminiHintProvider: HintProvider = {
+  id: "GEMINI",
+  name: HINT_PROVIDER_NAMES.GEMINI,
+  getHint: async (request, signal) =>
+    checkAnswer(request, await getHintFromGemini(request.board, minesRemaining(request), request.topology ?? "SQUARE", signal))
+};
+
+export const createLocalHintProvider = (endpoint: string, model: string): HintProvider => ({
+  id: "LOCAL",
+  name: HINT_PROVIDER_NAMES.LOCAL,
+  getHint: async (request, signal) =>
+    checkAnswer(request, await getHintFromLocalModel(
+      request.board, minesRemaining(request), request.topology ?? "SQUARE", { endpoint, model }, signal
+    ))
+});
+
+/**
+ * A scripted provider for tests: answers with each response in turn (the
+ * last one repeats) after `delayMs`, honouring cancellation like a real one.
+ */
+export const createMockHintProvider = (responses: HintResult[], delayMs = 0): HintProvider => {
+  let calls = 0;
+  return {
+    id: "MOCK",
+    name: "Mock",
+    getHint: (_request, signal) => new Promise((resolve, reject) => {
+      const response = responses[Math.min(calls++, responses.length - 1)];
+      const timer = setTimeout(() => resolve(response), delayMs);
+      signal.addEventListener("abort", () => {
+        clearTimeout(timer);
+        reject(new DOMException("Hint request cancelled", "AbortError"));
+      }, { once: true });
+    })
+  };
+};
+
+/** The provider chosen in settings. */
+export const hintProviderFor = (settings: Settings): HintProvider => {
+  switch (settings.hintProvider) {
+    case "GEMINI": return geminiHintProvider;
+    case "LOCAL": return createLocalHintProvider(settings.localEndpoint, settings.localModel);
+    default: return logicHintProvider;
+  }
+};
+
+interface RequestHintOptions {
+  signal?: AbortSignal;
+  timeoutMs: number;
+}
+
+/**
+ * Runs a provider with a deadline. Aborting `signal` rejects with an
+ * AbortError, running out of time with a TimeoutError; either way the
+ * provider's own signal is aborted so it can stop its request.
+ */
+export const requestHint = (provider: HintProvider, request: HintRequest, options: RequestHintOptions): Promise<HintResult> => {
+  const { signal, timeoutMs } = options;
+  const controller = new AbortController();
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Hint request cancelled", "AbortError"));
+      return;
+    }
+
+    const cancel = () => {
+      controller.abort();
+      reject(new DOMException("Hint request cancelled", "AbortError"));
+    };
+    signal?.addEventListener("abort", cancel, { once: true });
+
+    const timer = setTimeout(() => {
+      controller.abort();
+      reject(new DOMException(`${provider.name} did not answer within ${timeoutMs} ms`, "TimeoutError"));
+    }, timeoutMs);
+
+    provider.getHint(request, controller.signal)
+      .then(resolve, reject)
+      .finally(() => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", cancel);
+      });
+  });
+};
@@ -0,0 +1,43 @@
+import { Board, Topology } from "../types";
+import { buildHintPrompt, HINT_SCHEMA } from "./hintPrompt";
+
+export interface LocalModelConfig {
+  /** Base URL up to and including `/v1`, e.g. an Ollama or llama.cpp server. */
+  endpoint: string;
+  model: string;
+}
+
+/**
+ * Asks a model served behind an OpenAI-compatible chat completions API,
+ * typically on localhost, so hints work without network access. Resolves to
+ * the raw JSON text of an AiSuggestion.
+ */
+export const getHintFromLocalModel = async (
+  board: Board,
+  minesRemaining: number,
+  topology: Topology,
+  { endpoint, model }: LocalModelConfig,
+  signal?: AbortSignal
+): Promise<string> => {
+  try {
+    const response = await fetch(`${endpoint.replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: "user", content: buildHintPrompt(board, minesRemaining, topology) }],
+        temperature: 0.2,
+        response_format: { type: "json_schema", json_schema: { name: "hint", schema: HINT_SCHEMA, strict: true } }
+      }),
+      signal
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const data = await response.json();
+    const text: unknown = data?.choices?.[0]?.message?.content;
+    return typeof text === "string" ? text : "";
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error("Local Model Hint Error:", error);
+    throw new Error(`无法连接 ${endpoint}，请确认服务已启动`);
+  }
+};
@@ -2,7 +2,8 @@
 export enum DifficultyLevel {
   BEGINNER = 'BEGINNER',
   INTERMEDIATE = 'INTERMEDIATE',
-  ADVANCED = 'ADVANCED'
+  ADVANCED = 'ADVANCED',
+  CUSTOM = 'CUSTOM'
 }
 
 export interface DifficultyConfig {
@@ -20,7 +21,8 @@ export interface CellData {
   isFlagged: boolean;
   neighborCount: number;
   isHinted?: boolean;
-  hintType?: 'SAFE' | 'MINE' | null;
+  hintType?: 'SAFE' | 'MINE' | 'GUESS' | null;
+  isPremise?: boolean;
 }
 
 export enum GameStatus {
@@ -28,7 +30,195 @@ export enum GameStatus {
   PLAYING = 'PLAYING',
   WON = 'WON',
   LOST = 'LOST',
-  GENERATING = 'GENERATING'
+  GENERATING = 'GENERATING',
+  FAILED = 'FAILED'
 }
 
 export type Board = CellData[][];
+
+/**
+ * Deduction techniques, from the one a beginner spots first to the one
+ * that needs the most bookkeeping.
+ */
+export type DeductionRule = 'SINGLE' | 'SUBSET' | 'OVERLAP' | 'ENUMERATION' | 'GLOBAL';
+
+/** How much thinking a no-guess board takes, independent of its size. */
+export type LogicRating = 'EASY' | 'TRICKY' | 'FIENDISH';
+
+export interface LogicScore {
+  rating: LogicRating;
+  /** The hardest technique the solver needed from the start cell. */
+  hardest: DeductionRule;
+  /** Deductions that needed more than a single number to see. */
+  nonTrivial: number;
+}
+
+export interface Hint {
+  x: number;
+  y: number;
+  type: 'SAFE' | 'MINE';
+  rule: DeductionRule;
+  /** Revealed number cells the conclusion was drawn from. */
+  premises: { x: number; y: number }[];
+  /** Human-readable reasoning, one sentence per step, ending in the conclusion. */
+  steps: string[];
+}
+
+/** What a language model is asked to return: one move on one cell. */
+export interface AiSuggestion {
+  /** 1-based, as in the board text sent to the model. */
+  row: number;
+  col: number;
+  action: 'REVEAL' | 'FLAG';
+  reasoning: string;
+}
+
+/** A language model's suggested move, after checking it against the solver. */
+export interface AiHint {
+  x: number;
+  y: number;
+  action: 'REVEAL' | 'FLAG';
+  reasoning: string;
+  /** VERIFIED when the solver proves the move right; GUESS when it is merely possible. */
+  verdict: 'VERIFIED' | 'GUESS';
+  /** Mine probability of the target cell. */
+  probability: number;
+}
+
+export interface DailyRecord {
+  /** PLAYING means the challenge was started but never finished. */
+  outcome: 'PLAYING' | 'WON' | 'LOST';
+  /** Milliseconds taken, for won challenges. */
+  timeMs?: number;
+}
+
+export type GameActionType = 'REVEAL' | 'FLAG' | 'UNFLAG' | 'CHORD' | 'HINT' | 'UNDO' | 'REDO';
+
+export interface GameAction {
+  type: GameActionType;
+  /** Target cell; absent for UNDO and REDO. */
+  x?: number;
+  y?: number;
+  /** For HINT: what the hint said about the target. */
+  hintType?: CellData['hintType'];
+  /** Milliseconds since the board was generated. */
+  time: number;
+}
+
+/** Which mouse gesture on a revealed number reveals its unflagged neighbours. */
+export type ChordGesture = 'CLICK' | 'MIDDLE' | 'BOTH' | 'OFF';
+
+/**
+ * Which cells count as neighbours: the classic 8 around a square, the same
+ * with the edges wrapping round (torus), the 6 of a hexagon, or the 8 a
+ * chess knight can jump to.
+ */
+export type Topology = 'SQUARE' | 'TORUS' | 'HEX' | 'KNIGHT';
+
+/**
+ * Rule sets: CLASSIC ends on the first mine, LIVES survives a few, NO_FLAG
+ * forbids flags, and BLITZ races a countdown that each cleared opening tops up.
+ */
+export type GameVariant = 'CLASSIC' | 'LIVES' | 'NO_FLAG' | 'BLITZ';
+
+/** What a tap (or left click) on a hidden cell does; a long press does the other. */
+export type TapMode = 'DIG' | 'FLAG';
+
+/** Where hints come from; see services/hintProvider.ts. */
+export type HintProviderId = 'LOGIC' | 'GEMINI' | 'LOCAL';
+
+export interface Settings {
+  chordGesture: ChordGesture;
+  /** Milliseconds a touch must be held to count as a long press; 0 turns long press off. */
+  longPressMs: number;
+  hintProvider: HintProviderId;
+  /** Base URL of an OpenAI-compatible server, up to and including `/v1`. */
+  localEndpoint: string;
+  localModel: string;
+  /** A hint request still pending after this many milliseconds is abandoned. */
+  hintTimeoutMs: number;
+}
+
+/** One finished game, as kept in the local history. */
+export interface GameRecord {
+  id: string;
+  difficulty: DifficultyLevel;
+  rows: number;
+  cols: number;
+  mines: number;
+  outcome: 'WON' | 'LOST';
+  /** Milliseconds from generation to the last move. */
+  timeMs: number;
+  bbbv: number;
+  clicks: number;
+  hintsUsed: number;
+  /** Undo was used at least once. */
+  assisted: boolean;
+  daily: boolean;
+  seed: number;
+  /** ISO timestamp. */
+  finishedAt: string;
+  /** Played on a board loaded from a file, which may have come half solved. */
+  imported?: boolean;
+  /** Absent in records from before topologies existed, which were all SQUARE. */
+  topology?: Topology;
+  /** Absent in records from before variants existed, which were all CLASSIC. */
+  variant?: GameVariant;
+}
+
+export interface ClickCounts {
+  left: number;
+  right: number;
+  chord: number;
+  /** Clicks that changed nothing; they are also counted under their button. */
+  wasted: number;
+}
+
+/** A game in progress, as kept in the autosave and the named save slots. */
+export interface SavedGame {
+  /** Slot name; empty for the autosave. */
+  name: string;
+  savedAt: string;
+  difficulty: DifficultyLevel;
+  config: DifficultyConfig;
+  seed: number;
+  startCell: { x: number; y: number };
+  /** Mine positions of the generated layout, as row * cols + col. */
+  mines: number[];
+  /** Every move so far; replaying them onto the layout rebuilds the board. */
+  actions: GameAction[];
+  elapsedMs: number;
+  clicks: ClickCounts;
+  assisted: boolean;
+  /** Keeps the stats record of a resumed game under its original id. */
+  gameId: string;
+  /** Loaded from a board file rather than generated from `seed`. */
+  imported?: boolean;
+  /** The imported layout cannot be solved by logic alone from where it starts. */
+  mayRequireGuessing?: boolean;
+  /** Absent means SQUARE. */
+  topology?: Topology;
+  /** The logic rating the board was generated for; absent means any. */
+  rating?: LogicRating;
+  /** Absent means CLASSIC; BLITZ games are never saved. */
+  variant?: GameVariant;
+}
+
+/** A hand-made logic puzzle: a partly revealed position whose hidden cells are all forced. */
+export interface Puzzle {
+  id: string;
+  name: string;
+  rows: number;
+  cols: number;
+  /** Cell positions as `row * cols + col`. */
+  mines: number[];
+  /** Safe cells shown from the start. */
+  revealed: number[];
+}
+
+export interface PuzzleProgress {
+  solvedAt: string;
+  bestTimeMs: number;
+  /** Fewest hints used in any solve. */
+  hintsUsed: number;
+}
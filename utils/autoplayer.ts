@@ -0,0 +1,57 @@
+import { Board, GameStatus, Topology } from '../types';
+import { GameEngine } from './gameEngine';
+import { computeMineProbabilities, findSafestGuess } from './probability';
+import { cloneBoard } from './replay';
+import { deduce } from './solver';
+
+export interface BotMove {
+  /** FLAG is only ever played on an unflagged cell. */
+  type: 'REVEAL' | 'FLAG';
+  x: number;
+  y: number;
+  /** Logic had nothing left; this is the hidden cell least likely to be a mine. */
+  guess: boolean;
+}
+
+/**
+ * The move the autoplayer makes next: a logical deduction if there is one,
+ * preferring reveals since they make progress, else the safest guess. Flags
+ * are taken at face value, as they are for hints. Without `canFlag` the
+ * mines it finds are only flagged in its head, and it keeps deducing until
+ * a reveal turns up. Null when nothing is hidden.
+ */
+export function nextBotMove(board: Board, totalMines: number, topology: Topology = 'SQUARE', canFlag = true): BotMove | null {
+  let known = board;
+  for (;;) {
+    const steps = deduce(known, totalMines, topology);
+    const step = steps.find(s => s.type === 'SAFE') ?? steps[0];
+    if (!step) break;
+    if (step.type === 'SAFE' || canFlag) return { type: step.type === 'SAFE' ? 'REVEAL' : 'FLAG', x: step.x, y: step.y, guess: false };
+    known = cloneBoard(known);
+    steps.forEach(s => { known[s.x][s.y].isFlagged = true; });
+  }
+
+  const odds = computeMineProbabilities(known, totalMines, topology);
+  const guess = odds && findSafestGuess(odds);
+  return guess ? { type: 'REVEAL', x: guess.x, y: guess.y, guess: true } : null;
+}
+
+export interface BotGame {
+  outcome: GameStatus;
+  moves: number;
+  guesses: number;
+}
+
+/** Plays a started game to the end in one go. */
+export function playOut(engine: GameEngine): BotGame {
+  let moves = 0;
+  let guesses = 0;
+  for (;;) {
+    const { board, status } = engine.getState();
+    const move = status === GameStatus.PLAYING ? nextBotMove(board, engine.mines, engine.topology, engine.variant !== 'NO_FLAG') : null;
+    if (!move) return { outcome: status, moves, guesses };
+    moves++;
+    if (move.guess) guesses++;
+    engine.dispatch({ type: move.type, x: move.x, y: move.y });
+  }
+}
@@ -0,0 +1,217 @@
+import { Board, DifficultyLevel, GameAction, SavedGame, Topology } from '../types';
+import { CUSTOM_LIMITS, DIFFICULTIES, TOPOLOGY_NAMES } from '../constants';
+import { boardFromMines, findPreset, isSolvable } from './gameLogic';
+import { getNeighbors } from './grid';
+
+/** A board read from a file: the mine layout plus any progress recorded with it. */
+export interface BoardFile {
+  rows: number;
+  cols: number;
+  /** Cell positions as `row * cols + col`. */
+  mines: number[];
+  revealed: number[];
+  flagged: number[];
+  /** Absent means SQUARE. */
+  topology?: Topology;
+}
+
+/**
+ * Plain-text board format, one line per row:
+ *   `.` hidden safe cell   `*` hidden mine
+ *   `f` flagged safe cell  `F` flagged mine
+ *   `0`-`8` revealed cell, its digit being the number of adjacent mines
+ * Blank lines and lines starting with `#` are ignored, except a
+ * `# topology: <name>` line, which boards other than SQUARE carry so their
+ * numbers can be checked against the right neighbours.
+ */
+export const BOARD_TEXT_HEADER = '# SmartMinesweeper board: . safe  * mine  F flagged mine  f flagged safe  0-8 revealed';
+
+const TOPOLOGY_LINE = /^#\s*topology:\s*(\S+)\s*$/i;
+
+function checkSize(rows: number, cols: number, mines: number): void {
+  const { minSize, maxRows, maxCols } = CUSTOM_LIMITS;
+  if (rows < minSize || rows > maxRows) throw new Error(`棋盘行数必须在 ${minSize} 到 ${maxRows} 之间，文件中是 ${rows} 行。`);
+  if (cols < minSize || cols > maxCols) throw new Error(`棋盘列数必须在 ${minSize} 到 ${maxCols} 之间，文件中是 ${cols} 列。`);
+  if (mines < 1) throw new Error('棋盘上没有雷。');
+  if (mines >= rows * cols) throw new Error('棋盘上没有安全格子。');
+}
+
+export function parseBoardText(text: string): BoardFile {
+  const all = text.split(/\r?\n/).map((line, i) => ({ line: line.trimEnd(), number: i + 1 }));
+  const lines = all.filter(({ line }) => line.trim() !== '' && !line.startsWith('#'));
+  if (lines.length === 0) throw new Error('文件中没有棋盘。');
+
+  let topology: Topology = 'SQUARE';
+  all.forEach(({ line, number }) => {
+    const match = TOPOLOGY_LINE.exec(line);
+    if (!match) return;
+    const name = match[1].toUpperCase();
+    if (!(name in TOPOLOGY_NAMES)) throw new Error(`第 ${number} 行的棋盘类型「${match[1]}」无法识别。`);
+    topology = name as Topology;
+  });
+
+  const rows = lines.length;
+  const cols = lines[0].line.length;
+  const mines: number[] = [];
+  const revealed: number[] = [];
+  const flagged: number[] = [];
+  const digits: { index: number; value: number; line: number }[] = [];
+
+  lines.forEach(({ line, number }, x) => {
+    if (line.length !== cols) throw new Error(`第 ${number} 行有 ${line.length} 格，和第一行的 ${cols} 格不一致。`);
+    [...line].forEach((ch, y) => {
+      const index = x * cols + y;
+      if (ch === '*' || ch === 'F') mines.push(index);
+      if (ch === 'F' || ch === 'f') flagged.push(index);
+      if (ch >= '0' && ch <= '8') {
+        revealed.push(index);
+        digits.push({ index, value: Number(ch), line: number });
+      } else if (!'.*Ff'.includes(ch)) {
+        throw new Error(`第 ${number} 行第 ${y + 1} 列的字符「${ch}」无法识别。`);
+      }
+    });
+  });
+
+  checkSize(rows, cols, mines.length);
+  const board = boardFromMines(rows, cols, mines, topology);
+  digits.forEach(({ index, value, line }) => {
+    const cell = board[Math.floor(index / cols)][index % cols];
+    if (cell.neighborCount !== value) {
+      throw new Error(`第 ${line} 行第 ${index % cols + 1} 列标着 ${value}，但周围实际有 ${cell.neighborCount} 颗雷。`);
+    }
+  });
+  return { rows, cols, mines, revealed, flagged, ...(topology !== 'SQUARE' && { topology }) };
+}
+
+export function serializeBoardText(board: Board, topology: Topology = 'SQUARE'): string {
+  const lines = board.map(row => row.map(cell => {
+    if (cell.isRevealed && !cell.isMine) return String(cell.neighborCount);
+    if (cell.isFlagged) return cell.isMine ? 'F' : 'f';
+    return cell.isMine ? '*' : '.';
+  }).join(''));
+  const header = topology === 'SQUARE' ? [BOARD_TEXT_HEADER] : [BOARD_TEXT_HEADER, `# topology: ${topology}`];
+  return [...header, ...lines].join('\n') + '\n';
+}
+
+/**
+ * MBF, the binary board format of Minesweeper Arbiter and other community
+ * tools: width, height, the mine count as a big-endian 16-bit number, then
+ * the x (column) and y (row) of every mine, one byte each. It holds no
+ * progress, only the layout, and always means a SQUARE board.
+ */
+export function parseMbf(bytes: Uint8Array): BoardFile {
+  if (bytes.length < 4) throw new Error('MBF 文件太短，缺少文件头。');
+  const cols = bytes[0];
+  const rows = bytes[1];
+  const count = (bytes[2] << 8) | bytes[3];
+  if (bytes.length !== 4 + count * 2) {
+    throw new Error(`MBF 文件头声明了 ${count} 颗雷，但文件长度应为 ${4 + count * 2} 字节，实际是 ${bytes.length} 字节。`);
+  }
+  checkSize(rows, cols, count);
+
+  const mines = new Set<number>();
+  for (let i = 0; i < count; i++) {
+    const y = bytes[4 + i * 2];
+    const x = bytes[5 + i * 2];
+    if (x >= rows || y >= cols) throw new Error(`第 ${i + 1} 颗雷的坐标 (${y}, ${x}) 超出了 ${cols}×${rows} 的棋盘。`);
+    if (mines.has(x * cols + y)) throw new Error(`第 ${i + 1} 颗雷和前面的雷重复了。`);
+    mines.add(x * cols + y);
+  }
+  return { rows, cols, mines: [...mines], revealed: [], flagged: [] };
+}
+
+export function serializeMbf(board: Board): Uint8Array<ArrayBuffer> {
+  const mines: number[] = [];
+  board.forEach((row, x) => row.forEach((cell, y) => { if (cell.isMine) mines.push(y, x); }));
+  const count = mines.length / 2;
+  return new Uint8Array([board[0].length, board.length, count >> 8, count & 0xff, ...mines]);
+}
+
+/**
+ * Where to open an imported board that has no progress yet: an opening from
+ * which the whole board can be solved, else the largest opening, else the
+ * safe cell with the fewest adjacent mines. `solvable` tells whether the
+ * chosen start avoids guessing.
+ */
+export function pickStartCell(board: Board, topology: Topology = 'SQUARE'): { x: number; y: number; solvable: boolean } {
+  const rows = board.length;
+  const cols = board[0].length;
+  const seen = board.map(row => row.map(() => false));
+  const openings: { x: number; y: number; size: number }[] = [];
+
+  board.forEach((row, x) => row.forEach((cell, y) => {
+    if (seen[x][y] || cell.isMine || cell.neighborCount !== 0) return;
+    let size = 0;
+    const stack = [{ r: x, c: y }];
+    seen[x][y] = true;
+    while (stack.length) {
+      const current = stack.pop()!;
+      size++;
+      getNeighbors(current.r, current.c, rows, cols, topology).forEach(n => {
+        if (seen[n.r][n.c] || board[n.r][n.c].neighborCount !== 0 || board[n.r][n.c].isMine) return;
+        seen[n.r][n.c] = true;
+        stack.push(n);
+      });
+    }
+    openings.push({ x, y, size });
+  }));
+
+  openings.sort((a, b) => b.size - a.size);
+  const solvable = openings.find(o => isSolvable(board, o.x, o.y, topology));
+  if (solvable) return { x: solvable.x, y: solvable.y, solvable: true };
+  if (openings.length > 0) return { x: openings[0].x, y: openings[0].y, solvable: false };
+
+  let best = { x: 0, y: 0, count: Infinity };
+  board.forEach((row, x) => row.forEach((cell, y) => {
+    if (!cell.isMine && cell.neighborCount < best.count) best = { x, y, count: cell.neighborCount };
+  }));
+  return { x: best.x, y: best.y, solvable: isSolvable(board, best.x, best.y, topology) };
+}
+
+/**
+ * Turns an imported board into a game ready to resume. Recorded progress is
+ * replayed as moves; a board without any is opened at `pickStartCell`.
+ * Solvability is judged from where play will continue.
+ */
+export function importBoardFile(file: BoardFile): SavedGame {
+  const { rows, cols, mines, revealed, flagged, topology = 'SQUARE' } = file;
+  const board = boardFromMines(rows, cols, mines, topology);
+  const at = (i: number) => ({ x: Math.floor(i / cols), y: i % cols });
+
+  let start: { x: number; y: number };
+  let solvable: boolean;
+  if (revealed.length > 0) {
+    if (revealed.length === rows * cols - mines.length) throw new Error('这个棋盘已经全部揭开了。');
+    revealed.forEach(i => { const p = at(i); board[p.x][p.y].isRevealed = true; });
+    start = at(revealed[0]);
+    solvable = isSolvable(board, start.x, start.y, topology);
+  } else {
+    const picked = pickStartCell(board, topology);
+    start = { x: picked.x, y: picked.y };
+    solvable = picked.solvable;
+  }
+
+  const actions: GameAction[] = [
+    ...(revealed.length > 0 ? revealed.map(at) : [start]).map(p => ({ type: 'REVEAL' as const, ...p, time: 0 })),
+    ...flagged.map(i => ({ type: 'FLAG' as const, ...at(i), time: 0 }))
+  ];
+  const difficulty = findPreset(rows, cols, mines.length) ?? DifficultyLevel.CUSTOM;
+
+  return {
+    name: '',
+    savedAt: new Date().toISOString(),
+    difficulty,
+    config: { ...DIFFICULTIES[difficulty], rows, cols, mines: mines.length },
+    seed: 0,
+    startCell: start,
+    mines,
+    actions,
+    elapsedMs: 0,
+    clicks: { left: 0, right: 0, chord: 0, wasted: 0 },
+    assisted: false,
+    gameId: `${Date.now().toString(36)}-import`,
+    imported: true,
+    mayRequireGuessing: !solvable,
+    topology
+  };
+}
@@ -0,0 +1,45 @@
+import { DifficultyLevel } from '../types';
+import { DIFFICULTIES } from '../constants';
+import { createRandom } from './random';
+import { SharedGame } from './shareCode';
+
+export interface DailyChallenge {
+  /** Storage key, unique per date and difficulty. */
+  key: string;
+  date: string;
+  game: SharedGame;
+}
+
+/** The local calendar date as YYYY-MM-DD. */
+export function dateKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** FNV-1a, used to turn a date into a seed everyone agrees on. */
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * The board of the day for a preset difficulty: seed and start cell are both
+ * derived from the date, so every player gets the same opening.
+ */
+export function dailyChallenge(date: Date, level: DifficultyLevel): DailyChallenge {
+  const day = dateKey(date);
+  const key = `${day}:${level}`;
+  const seed = hashString(key);
+  const { rows, cols, mines } = DIFFICULTIES[level];
+
+  // Keep the opening away from the edges so the safe 3×3 zone is complete
+  const random = createRandom(seed);
+  const startX = 1 + Math.floor(random() * (rows - 2));
+  const startY = 1 + Math.floor(random() * (cols - 2));
+
+  return { key, date: day, game: { rows, cols, mines, startX, startY, seed } };
+}
@@ -0,0 +1,113 @@
+import { Board, Topology } from '../types';
+import { getNeighbors } from './grid';
+import { Deduction } from './solver';
+
+type Point = { x: number; y: number };
+
+const at = (p: Point) => `第${p.x + 1}行第${p.y + 1}列`;
+
+const conclusion = (step: Deduction) =>
+  `结论：${at(step)} ${step.type === 'SAFE' ? '可以安全揭开' : '必然是雷，请插旗'}。`;
+
+/** How flags are spoken of: as placed flags, or as mines the player keeps in mind when flagging is off. */
+const flagWord = (canFlag: boolean) => (canFlag ? '已插旗' : '已确定是雷');
+
+/** What a revealed number still demands of its unflagged hidden neighbours. */
+function describe(board: Board, p: Point, topology: Topology) {
+  const hidden: number[] = [];
+  let flagged = 0;
+  const cols = board[0].length;
+  getNeighbors(p.x, p.y, board.length, cols, topology).forEach(n => {
+    const cell = board[n.r][n.c];
+    if (cell.isFlagged) flagged++;
+    else if (!cell.isRevealed) hidden.push(n.r * cols + n.c);
+  });
+  const count = board[p.x][p.y].neighborCount;
+  return { count, flagged, hidden, need: count - flagged };
+}
+
+const summarize = (board: Board, p: Point, topology: Topology, canFlag: boolean) => {
+  const { count, flagged, hidden, need } = describe(board, p, topology);
+  const flags = flagged > 0 ? `，周围${flagWord(canFlag)} ${flagged} 个` : '';
+  if (need === 0) return `${at(p)} 的数字是 ${count}${flags}，周围还有 ${hidden.length} 个未揭开格子。`;
+  return `${at(p)} 的数字是 ${count}${flags}，还差 ${need} 个雷，分布在 ${hidden.length} 个未揭开格子中。`;
+};
+
+/**
+ * Turns a solver deduction into a step-by-step explanation, from the
+ * premises through the rule that was applied to the final conclusion.
+ * Without `canFlag`, flags on `board` are mines the player has only worked out.
+ */
+export function explainDeduction(
+  board: Board, step: Deduction, totalMines: number, topology: Topology = 'SQUARE', canFlag = true
+): string[] {
+  const [a, b] = step.premises;
+
+  switch (step.rule) {
+    case 'SINGLE': {
+      const { hidden, need } = describe(board, a, topology);
+      return [
+        summarize(board, a, topology, canFlag),
+        need === 0
+          ? `这个数字周围的雷已经全部${canFlag ? '插旗' : '确定'}，剩下的未揭开格子都不可能是雷。`
+          : `还差的 ${need} 个雷正好等于 ${hidden.length} 个未揭开格子，所以它们全部是雷。`,
+        conclusion(step)
+      ];
+    }
+
+    case 'SUBSET':
+    case 'OVERLAP': {
+      const da = describe(board, a, topology);
+      const db = describe(board, b, topology);
+      const inB = new Set(db.hidden);
+      const shared = da.hidden.filter(i => inB.has(i)).length;
+      const onlyA = da.hidden.length - shared;
+      const onlyB = db.hidden.length - shared;
+
+      let reasoning: string;
+      if (step.rule === 'SUBSET') {
+        reasoning = `${at(b)} 的未揭开格子全部在 ${at(a)} 的范围内，因此 ${at(a)} 独有的 ${onlyA} 个格子里恰好有 ${da.need - db.need} 个雷。`;
+      } else if (step.type === 'SAFE') {
+        const minShared = db.need - onlyB;
+        reasoning = `两者共享 ${shared} 个格子。${at(b)} 独有的格子最多只有 ${onlyB} 个，所以共享区域里至少有 ${minShared} 个雷，这已经满足了 ${at(a)} 的需求，它独有的 ${onlyA} 个格子都安全。`;
+      } else {
+        const maxShared = Math.min(shared, da.need, db.need);
+        reasoning = `两者共享 ${shared} 个格子，但 ${at(b)} 只允许共享区域里最多 ${maxShared} 个雷，${at(a)} 剩下的 ${da.need - maxShared} 个雷只能落在它独有的 ${onlyA} 个格子里。`;
+      }
+      return [summarize(board, a, topology, canFlag), summarize(board, b, topology, canFlag), reasoning, conclusion(step)];
+    }
+
+    case 'ENUMERATION':
+      return [
+        `${step.premises.map(at).join('、')} 这 ${step.premises.length} 个数字相互关联，共同约束着同一片未揭开区域。`,
+        `逐一枚举满足所有这些数字的布雷方式，${at(step)} 在每一种方式中都${step.type === 'SAFE' ? '没有雷' : '是雷'}。`,
+        conclusion(step)
+      ];
+
+    case 'GLOBAL': {
+      let flagged = 0;
+      board.forEach(row => row.forEach(cell => { if (cell.isFlagged) flagged++; }));
+      const remaining = totalMines - flagged;
+      const counting = `全盘共 ${totalMines} 颗雷，${flagWord(canFlag)} ${flagged} 个，还剩 ${remaining} 颗没有找到。`;
+      if (step.premises.length === 0) {
+        return [
+          counting,
+          step.type === 'SAFE'
+            ? '已揭开数字周围的边界区域必须用掉全部剩余的雷，远离数字的内部格子里不可能再有雷。'
+            : '边界区域容纳不下剩余的雷，多出来的雷必须填满所有远离数字的内部格子。',
+          conclusion(step)
+        ];
+      }
+      return [
+        counting,
+        `${step.premises.map(at).join('、')} 周围的布雷方式有多种，但只有 ${at(step)} ${step.type === 'SAFE' ? '没有雷' : '是雷'}的那些方式能让总雷数对上。`,
+        conclusion(step)
+      ];
+    }
+  }
+}
+
+/** The opening step of a hint that builds on mines the player cannot flag. */
+export function explainKnownMines(mines: Point[]): string {
+  return `${mines.map(at).join('、')} 必然是雷。记住它们，把它们当作已知的雷继续推理。`;
+}
@@ -0,0 +1,339 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Board, GameStatus } from '../types';
+import { BLITZ_TIME } from '../constants';
+import { BoardGenerator, EngineConfig, EngineEvent, GameEngine, GameEngineOptions } from './gameEngine';
+import { boardFromMines } from './gameLogic';
+
+/**
+ * 3×5 with mines at (0,2) and (2,2). Opening at (1,0) reveals the two left
+ * columns, leaving (1,1) a 2 next to both mines; (1,4) opens the right side.
+ *
+ *   . . * . .
+ *   . . . . .
+ *   . . * . .
+ */
+const ROWS = 3;
+const COLS = 5;
+const MINES = [2, 12];
+const layout = (): Board => boardFromMines(ROWS, COLS, MINES);
+
+function createEngine(options: GameEngineOptions = {}, config: Partial<EngineConfig> = {}) {
+  const events: EngineEvent[] = [];
+  const engine = new GameEngine({ rows: ROWS, cols: COLS, mines: MINES.length, seed: 1, ...config }, { generate: async () => layout(), ...options });
+  engine.subscribe(event => { if (event.type !== 'CHANGE') events.push(event); });
+  return { engine, events };
+}
+
+async function startedEngine(options: GameEngineOptions = {}, config: Partial<EngineConfig> = {}) {
+  const created = createEngine(options, config);
+  await created.engine.start(1, 0);
+  return created;
+}
+
+const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('GameEngine', () => {
+  describe('first click', () => {
+    it('generates a board from the seed and opens it at the clicked cell', async () => {
+      const requests: Parameters<BoardGenerator>[0][] = [];
+      const { engine, events } = createEngine({ generate: async request => { requests.push(request); return layout(); } });
+
+      engine.dispatch({ type: 'REVEAL', x: 1, y: 0 });
+      expect(engine.getState().status).toBe(GameStatus.GENERATING);
+      await flushPromises();
+
+      const state = engine.getState();
+      expect(requests).toEqual([expect.objectContaining({ rows: ROWS, cols: COLS, mines: 2, startX: 1, startY: 0, seed: 1 })]);
+      expect(state.status).toBe(GameStatus.PLAYING);
+      expect(state.startCell).toEqual({ x: 1, y: 0 });
+      expect(state.board[0][0].isRevealed).toBe(true);
+      expect(state.board[1][1].isRevealed).toBe(true);
+      expect(state.board[1][2].isRevealed).toBe(false);
+      expect(state.initialBoard?.every(row => row.every(cell => !cell.isRevealed))).toBe(true);
+      expect(events).toContainEqual({ type: 'STARTED', seed: 1 });
+    });
+
+    it('fails when no board can be generated and retries with a fresh seed on the next click', async () => {
+      const seeds: number[] = [];
+      const { engine, events } = createEngine({
+        generate: async request => {
+          seeds.push(request.seed);
+          return seeds.length === 1 ? null : layout();
+        }
+      });
+
+      await engine.start(1, 0);
+      expect(engine.getState().status).toBe(GameStatus.FAILED);
+      expect(events).toContainEqual({ type: 'FAILED' });
+
+      engine.dispatch({ type: 'REVEAL', x: 1, y: 0 });
+      await flushPromises();
+      expect(engine.getState().status).toBe(GameStatus.PLAYING);
+      expect(seeds).toHaveLength(2);
+      expect(seeds[1]).not.toBe(seeds[0]);
+      expect(engine.getState().seed).toBe(seeds[1]);
+    });
+
+    it('ignores flags before the board exists', () => {
+      const { engine } = createEngine();
+      engine.dispatch({ type: 'FLAG', x: 0, y: 2 });
+      expect(engine.getState().status).toBe(GameStatus.IDLE);
+      expect(engine.getState().flags).toBe(0);
+    });
+  });
+
+  describe('playing', () => {
+    it('loses when a mine is revealed and stops the clock', async () => {
+      let now = 0;
+      const { engine, events } = await startedEngine({ now: () => now });
+      now = 1500;
+      engine.dispatch({ type: 'REVEAL', x: 0, y: 2 });
+      now = 3000;
+
+      expect(engine.getState().status).toBe(GameStatus.LOST);
+      expect(engine.stopwatch.running).toBe(false);
+      expect(events).toContainEqual({ type: 'LOST', timeMs: 1500 });
+    });
+
+    it('wins once the last safe cell is revealed', async () => {
+      let now = 0;
+      const { engine, events } = await startedEngine({ now: () => now });
+      engine.dispatch({ type: 'REVEAL', x: 1, y: 2 });
+      expect(engine.getState().status).toBe(GameStatus.PLAYING);
+
+      now = 2000;
+      engine.dispatch({ type: 'REVEAL', x: 1, y: 4 });
+      expect(engine.getState().status).toBe(GameStatus.WON);
+      expect(events).toContainEqual({ type: 'WON', timeMs: 2000 });
+      expect(engine.getState().actions.map(a => a.type)).toEqual(['REVEAL', 'REVEAL', 'REVEAL']);
+    });
+
+    it('toggles flags on hidden cells and counts them', async () => {
+      const { engine } = await startedEngine();
+      engine.dispatch({ type: 'FLAG', x: 0, y: 2 });
+      engine.dispatch({ type: 'FLAG', x: 2, y: 2 });
+      expect(engine.getState().flags).toBe(2);
+      expect(engine.getState().board[0][2].isFlagged).toBe(true);
+
+      engine.dispatch({ type: 'FLAG', x: 0, y: 2 });
+      expect(engine.getState().flags).toBe(1);
+      expect(engine.getState().board[0][2].isFlagged).toBe(false);
+
+      engine.dispatch({ type: 'FLAG', x: 1, y: 1 });
+      expect(engine.getState().flags).toBe(1);
+      expect(engine.getState().actions.map(a => a.type)).toEqual(['REVEAL', 'FLAG', 'FLAG', 'UNFLAG']);
+    });
+
+    it('chords a number whose flags match it', async () => {
+      const { engine } = await startedEngine();
+      engine.dispatch({ type: 'FLAG', x: 0, y: 2 });
+      engine.dispatch({ type: 'FLAG', x: 2, y: 2 });
+      engine.dispatch({ type: 'CHORD', x: 1, y: 1 });
+
+      expect(engine.getState().board[1][2].isRevealed).toBe(true);
+      expect(engine.getState().status).toBe(GameStatus.PLAYING);
+    });
+
+    it('explodes when a chord trusts a wrong flag', async () => {
+      const { engine } = await startedEngine();
+      engine.dispatch({ type: 'FLAG', x: 0, y: 2 });
+      engine.dispatch({ type: 'FLAG', x: 1, y: 2 });
+      engine.dispatch({ type: 'CHORD', x: 1, y: 1 });
+
+      expect(engine.getState().board[2][2].isRevealed).toBe(true);
+      expect(engine.getState().status).toBe(GameStatus.LOST);
+    });
+
+    it('ignores a chord whose flags do not match', async () => {
+      const { engine } = await startedEngine();
+      engine.dispatch({ type: 'FLAG', x: 0, y: 2 });
+      engine.dispatch({ type: 'CHORD', x: 1, y: 1 });
+
+      expect(engine.getState().board[1][2].isRevealed).toBe(false);
+      expect(engine.getState().actions.map(a => a.type)).toEqual(['REVEAL', 'FLAG']);
+    });
+  });
+
+  describe('undo and redo', () => {
+    it('takes back a loss, marks the game assisted and redoes it', async () => {
+      const { engine } = await startedEngine();
+      expect(engine.getState().canUndo).toBe(false);
+      engine.dispatch({ type: 'REVEAL', x: 0, y: 2 });
+      expect(engine.getState().canUndo).toBe(true);
+
+      engine.dispatch({ type: 'UNDO' });
+      expect(engine.getState().status).toBe(GameStatus.PLAYING);
+      expect(engine.getState().board[0][2].isRevealed).toBe(false);
+      expect(engine.getState().assisted).toBe(true);
+      expect(engine.stopwatch.running).toBe(true);
+      expect(engine.getState().canRedo).toBe(true);
+
+      engine.dispatch({ type: 'REDO' });
+      expect(engine.getState().status).toBe(GameStatus.LOST);
+      expect(engine.getState().canRedo).toBe(false);
+      expect(engine.getState().actions.map(a => a.type)).toEqual(['REVEAL', 'REVEAL', 'UNDO', 'REDO']);
+    });
+
+    it('drops the redo history on a new move', async () => {
+      const { engine } = await startedEngine();
+      engine.dispatch({ type: 'FLAG', x: 0, y: 2 });
+      engine.dispatch({ type: 'UNDO' });
+      engine.dispatch({ type: 'FLAG', x: 2, y: 2 });
+
+      expect(engine.getState().canRedo).toBe(false);
+      expect(engine.getState().flags).toBe(1);
+    });
+
+    it('never offers undo when the game is not undoable', async () => {
+      const { engine } = await startedEngine({ undoable: false });
+      engine.dispatch({ type: 'FLAG', x: 0, y: 2 });
+      engine.dispatch({ type: 'REVEAL', x: 2, y: 2 });
+      expect(engine.getState().canUndo).toBe(false);
+
+      engine.dispatch({ type: 'UNDO' });
+      expect(engine.getState().status).toBe(GameStatus.LOST);
+      expect(engine.getState().assisted).toBe(false);
+    });
+  });
+
+  describe('variants', () => {
+    it('counts LIVES hits and marks each hit mine as found', async () => {
+      const { engine, events } = await startedEngine({}, { variant: 'LIVES' });
+      engine.dispatch({ type: 'REVEAL', x: 0, y: 2 });
+
+      const state = engine.getState();
+      expect(state.status).toBe(GameStatus.PLAYING);
+      expect(state.hits).toBe(1);
+      expect(state.board[0][2]).toMatchObject({ isRevealed: true, isFlagged: true });
+      expect(state.flags).toBe(1);
+
+      engine.dispatch({ type: 'REVEAL', x: 2, y: 2 });
+      expect(engine.getState().hits).toBe(2);
+      expect(engine.getState().status).toBe(GameStatus.PLAYING);
+      expect(events.some(event => event.type === 'LOST')).toBe(false);
+    });
+
+    it('wins a LIVES game with mines hit along the way', async () => {
+      const { engine } = await startedEngine({}, { variant: 'LIVES' });
+      engine.dispatch({ type: 'REVEAL', x: 0, y: 2 });
+      engine.dispatch({ type: 'REVEAL', x: 1, y: 2 });
+      engine.dispatch({ type: 'REVEAL', x: 1, y: 4 });
+      expect(engine.getState().status).toBe(GameStatus.WON);
+    });
+
+    it('refuses flags in a NO_FLAG game', async () => {
+      const { engine } = await startedEngine({}, { variant: 'NO_FLAG' });
+      engine.dispatch({ type: 'FLAG', x: 0, y: 2 });
+
+      expect(engine.getState().flags).toBe(0);
+      expect(engine.getState().board[0][2].isFlagged).toBe(false);
+      expect(engine.getState().actions.map(a => a.type)).toEqual(['REVEAL']);
+    });
+
+    it('picks a saved game back up with its hits and variant rules', async () => {
+      const { engine: played } = await startedEngine({}, { variant: 'LIVES' });
+      played.dispatch({ type: 'REVEAL', x: 0, y: 2 });
+      const { initialBoard, board, flags, startCell, actions } = played.getState();
+
+      const { engine } = createEngine({}, { variant: 'LIVES' });
+      engine.resume({ initialBoard: initialBoard!, board, flags, startCell: startCell!, actions, elapsedMs: 4000, assisted: false });
+      expect(engine.getState().hits).toBe(1);
+      expect(engine.getState().status).toBe(GameStatus.PLAYING);
+      expect(engine.stopwatch.ms).toBeGreaterThanOrEqual(4000);
+
+      engine.dispatch({ type: 'REVEAL', x: 2, y: 2 });
+      expect(engine.getState().hits).toBe(2);
+      expect(engine.getState().status).toBe(GameStatus.PLAYING);
+    });
+
+    it('never resumes a BLITZ game', async () => {
+      const { engine: played } = await startedEngine({}, { variant: 'BLITZ' });
+      const { initialBoard, board, flags, startCell, actions } = played.getState();
+      played.dispose();
+
+      const { engine } = createEngine({}, { variant: 'BLITZ' });
+      engine.resume({ initialBoard: initialBoard!, board, flags, startCell: startCell!, actions, elapsedMs: 0, assisted: false });
+      expect(engine.getState().status).toBe(GameStatus.IDLE);
+    });
+
+    describe('BLITZ', () => {
+      beforeEach(() => { vi.useFakeTimers(); });
+      afterEach(() => { vi.useRealTimers(); });
+
+      const limit = BLITZ_TIME.baseMs + BLITZ_TIME.perMineMs * MINES.length;
+
+      it('counts down from the base time plus time per mine and loses when it runs out', async () => {
+        const { engine, events } = await startedEngine({ now: () => Date.now() }, { variant: 'BLITZ' });
+        expect(engine.getState().timeLimitMs).toBe(limit);
+        expect(engine.getState().canUndo).toBe(false);
+
+        vi.advanceTimersByTime(limit - 1);
+        expect(engine.getState().status).toBe(GameStatus.PLAYING);
+
+        vi.advanceTimersByTime(1);
+        expect(engine.getState().status).toBe(GameStatus.LOST);
+        expect(engine.getState().hits).toBe(0);
+        expect(engine.stopwatch.running).toBe(false);
+        expect(events).toContainEqual({ type: 'LOST', timeMs: limit });
+        expect(vi.getTimerCount()).toBe(0);
+      });
+
+      it('lets no move in once the time is up, even before the timer fires', async () => {
+        let now = 0;
+        const { engine } = await startedEngine({ now: () => now }, { variant: 'BLITZ' });
+        now = limit;
+        engine.dispatch({ type: 'REVEAL', x: 1, y: 2 });
+
+        expect(engine.getState().status).toBe(GameStatus.LOST);
+        expect(engine.getState().board[1][2].isRevealed).toBe(false);
+        engine.dispose();
+      });
+
+      it('adds bonus time for every opening a move clears, and none for other reveals', async () => {
+        /*
+         *   . . * . * . .
+         *   . . . . . . .
+         *   . . * . * . .
+         */
+        const mines = [2, 4, 16, 18];
+        const { engine } = await startedEngine(
+          { generate: async () => boardFromMines(3, 7, mines) },
+          { rows: 3, cols: 7, mines: mines.length, variant: 'BLITZ' }
+        );
+        const start = BLITZ_TIME.baseMs + BLITZ_TIME.perMineMs * mines.length;
+        expect(engine.getState().timeLimitMs).toBe(start);
+
+        engine.dispatch({ type: 'REVEAL', x: 1, y: 3 });
+        expect(engine.getState().timeLimitMs).toBe(start);
+
+        engine.dispatch({ type: 'REVEAL', x: 1, y: 6 });
+        expect(engine.getState().status).toBe(GameStatus.PLAYING);
+        expect(engine.getState().timeLimitMs).toBe(start + BLITZ_TIME.bonusMs);
+        engine.dispose();
+      });
+    });
+  });
+
+  describe('dispose', () => {
+    it('aborts a generation in flight and never starts the game', async () => {
+      let signal: AbortSignal | undefined;
+      let finish: (board: Board) => void = () => {};
+      const { engine, events } = createEngine({
+        generate: (_request, options) => new Promise(resolve => {
+          signal = options.signal;
+          finish = resolve;
+        })
+      });
+
+      const started = engine.start(1, 0);
+      engine.dispose();
+      expect(signal?.aborted).toBe(true);
+
+      // A generator that ignores the signal and answers anyway
+      finish(layout());
+      await started;
+      expect(engine.getState().status).toBe(GameStatus.GENERATING);
+      expect(events.some(event => event.type === 'STARTED')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,382 @@
+import { Board, CellData, GameAction, GameStatus, GameVariant, LogicRating, Topology } from '../types';
+import { BLITZ_TIME, VARIANT_LIVES } from '../constants';
+import type { GenerateRequest } from '../workers/generator.worker';
+import { classifyClick, countClearedOpenings, createEmptyBoard, floodFill, generateGuaranteedBoard } from './gameLogic';
+import { applyAction, cloneBoard, countHits, frameStatus } from './replay';
+import { createRandom, randomSeed } from './random';
+import { RestoredGame } from './savedGame';
+import { Stopwatch } from './stopwatch';
+
+export interface EngineConfig {
+  rows: number;
+  cols: number;
+  mines: number;
+  /** Seed of the first layout; a failed generation retries with a fresh one. */
+  seed: number;
+  topology?: Topology;
+  /** Logic rating the generated board must have; any when absent. */
+  rating?: LogicRating;
+  /** Defaults to CLASSIC. */
+  variant?: GameVariant;
+}
+
+/** Everything a player, or a program playing for one, can do to a game. */
+export type EngineAction =
+  | { type: 'REVEAL'; x: number; y: number }
+  /** Toggles the flag on a hidden cell. */
+  | { type: 'FLAG'; x: number; y: number }
+  | { type: 'CHORD'; x: number; y: number }
+  /** Highlights a cell and the revealed numbers behind the conclusion; never undone. */
+  | { type: 'HINT'; x: number; y: number; hintType: NonNullable<CellData['hintType']>; premises?: { x: number; y: number }[] }
+  | { type: 'UNDO' }
+  | { type: 'REDO' };
+
+/** Sent to subscribers once the state they describe is in place. */
+export type EngineEvent =
+  /** Any change at all; `getState()` returns a new object afterwards. */
+  | { type: 'CHANGE' }
+  | { type: 'PROGRESS'; attempt: number; maxAttempts: number }
+  /** The first click has been answered with a board generated from `seed`. */
+  | { type: 'STARTED'; seed: number }
+  | { type: 'FAILED' }
+  /** A move was logged, including hints, undo and redo. */
+  | { type: 'MOVE'; action: GameAction }
+  | { type: 'WON'; timeMs: number }
+  | { type: 'LOST'; timeMs: number };
+
+export interface EngineState {
+  board: Board;
+  /** The generated layout before the first reveal; null until there is one. */
+  initialBoard: Board | null;
+  status: GameStatus;
+  /** Includes mines that went off, which stay marked as found. */
+  flags: number;
+  /** Mines revealed so far; the game is lost once they reach the engine's `lives`. */
+  hits: number;
+  /** For BLITZ: the game time at which the countdown runs out. Null otherwise. */
+  timeLimitMs: number | null;
+  seed: number;
+  startCell: { x: number; y: number } | null;
+  actions: GameAction[];
+  /** Undo was used at least once. */
+  assisted: boolean;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+/** Same shape as `generateBoardInWorker`, so the worker can be passed in as is. */
+export type BoardGenerator = (
+  request: GenerateRequest,
+  options: { signal?: AbortSignal; onProgress?: (attempt: number, maxAttempts: number) => void }
+) => Promise<Board | null>;
+
+export interface GameEngineOptions {
+  /** Defaults to generating on the calling thread. */
+  generate?: BoardGenerator;
+  /** False turns undo and redo off, as for daily challenges. */
+  undoable?: boolean;
+  /** Clock for the game time in milliseconds. */
+  now?: () => number;
+}
+
+/** A game saved mid-play, picked up where it was left. */
+export interface ResumedGame extends RestoredGame {
+  startCell: { x: number; y: number };
+  actions: GameAction[];
+  elapsedMs: number;
+  assisted: boolean;
+}
+
+/** The state undo and redo move between. */
+interface Snapshot {
+  board: Board;
+  flags: number;
+  hits: number;
+  status: GameStatus;
+}
+
+const generateInThread: BoardGenerator = async ({ rows, cols, mines, startX, startY, seed, topology, rating }, { onProgress }) =>
+  generateGuaranteedBoard(rows, cols, mines, startX, startY, { random: createRandom(seed), topology, rating, onProgress });
+
+function clearHints(board: Board): Board {
+  return board.map(row => row.map(cell => ({ ...cell, isHinted: false, hintType: null, isPremise: false })));
+}
+
+function countFlags(board: Board): number {
+  return board.reduce((sum, row) => sum + row.filter(cell => cell.isFlagged).length, 0);
+}
+
+/**
+ * The rules of one game, free of any UI: the first click generates a board
+ * that opens there, a revealed mine loses, revealing every safe cell wins.
+ * The variant bends those rules: LIVES takes several mines to lose, NO_FLAG
+ * refuses flags and BLITZ also loses when its countdown runs out.
+ * Owns the board, the clock, undo history and the move log; the view sends
+ * actions through `dispatch` and re-reads `getState()` on every event.
+ */
+export class GameEngine {
+  readonly rows: number;
+  readonly cols: number;
+  readonly mines: number;
+  readonly topology: Topology;
+  readonly rating?: LogicRating;
+  readonly variant: GameVariant;
+  /** Mines it takes to lose. */
+  readonly lives: number;
+  readonly stopwatch: Stopwatch;
+
+  private state: EngineState;
+  private undoStack: Snapshot[] = [];
+  private redoStack: Snapshot[] = [];
+  private listeners = new Set<(event: EngineEvent) => void>();
+  private generation: AbortController | null = null;
+  private deadline: ReturnType<typeof setTimeout> | null = null;
+  private readonly generate: BoardGenerator;
+  private readonly undoable: boolean;
+
+  constructor(config: EngineConfig, options: GameEngineOptions = {}) {
+    this.rows = config.rows;
+    this.cols = config.cols;
+    this.mines = config.mines;
+    this.topology = config.topology ?? 'SQUARE';
+    this.rating = config.rating;
+    this.variant = config.variant ?? 'CLASSIC';
+    this.lives = VARIANT_LIVES[this.variant];
+    this.stopwatch = new Stopwatch(options.now);
+    this.generate = options.generate ?? generateInThread;
+    // Undoing past a blown countdown would only lose again on the spot
+    this.undoable = (options.undoable ?? true) && this.variant !== 'BLITZ';
+    this.state = {
+      board: createEmptyBoard(config.rows, config.cols),
+      initialBoard: null,
+      status: GameStatus.IDLE,
+      flags: 0,
+      hits: 0,
+      timeLimitMs: null,
+      seed: config.seed,
+      startCell: null,
+      actions: [],
+      assisted: false,
+      canUndo: false,
+      canRedo: false
+    };
+  }
+
+  /** Replaced, never mutated, so it can be compared by identity. */
+  getState = (): EngineState => this.state;
+
+  subscribe = (listener: (event: EngineEvent) => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  /** Actions that make no sense in the current state are ignored. */
+  dispatch(action: EngineAction): void {
+    // A countdown can run out between timer ticks; no move gets in after it
+    if (this.checkClock()) return;
+    const { board, status } = this.state;
+    const playing = status === GameStatus.PLAYING;
+
+    switch (action.type) {
+      case 'REVEAL':
+        if (status === GameStatus.FAILED) {
+          // The same seed would fail the same way, so retry with a fresh one
+          this.update({ seed: randomSeed(), status: GameStatus.IDLE });
+        }
+        if (this.state.status === GameStatus.IDLE) {
+          this.start(action.x, action.y);
+          return;
+        }
+        if (!playing || board[action.x][action.y].isRevealed || board[action.x][action.y].isFlagged) return;
+        this.move({ type: 'REVEAL', x: action.x, y: action.y });
+        return;
+
+      case 'FLAG':
+        if (!playing || this.variant === 'NO_FLAG' || board[action.x][action.y].isRevealed) return;
+        this.move({ type: board[action.x][action.y].isFlagged ? 'UNFLAG' : 'FLAG', x: action.x, y: action.y });
+        return;
+
+      case 'CHORD':
+        if (!playing || classifyClick(board, action.x, action.y, 'CHORD', this.topology).wasted) return;
+        this.move({ type: 'CHORD', x: action.x, y: action.y });
+        return;
+
+      case 'HINT': {
+        if (!playing) return;
+        const logged: GameAction = { type: 'HINT', x: action.x, y: action.y, hintType: action.hintType, time: this.time() };
+        const next = applyAction(board, logged, this.topology);
+        action.premises?.forEach(p => { next[p.x][p.y].isPremise = true; });
+        this.update({ board: next, actions: [...this.state.actions, logged] });
+        this.emit({ type: 'MOVE', action: logged });
+        return;
+      }
+
+      case 'UNDO':
+        if (!this.state.canUndo) return;
+        this.redoStack.push(this.snapshot());
+        this.restore(this.undoStack.pop()!, 'UNDO');
+        return;
+
+      case 'REDO':
+        if (!this.state.canRedo) return;
+        this.undoStack.push(this.snapshot());
+        this.restore(this.redoStack.pop()!, 'REDO');
+        return;
+    }
+  }
+
+  /**
+   * Generates the board around the first click and opens it there. Resolves
+   * once the game is PLAYING or FAILED; a generation superseded by `dispose`
+   * resolves without touching the state.
+   */
+  async start(x: number, y: number): Promise<void> {
+    if (this.state.status !== GameStatus.IDLE) return;
+    const controller = new AbortController();
+    this.generation = controller;
+    this.update({ status: GameStatus.GENERATING, startCell: { x, y } });
+
+    let generated: Board | null;
+    try {
+      generated = await this.generate(
+        { rows: this.rows, cols: this.cols, mines: this.mines, startX: x, startY: y, seed: this.state.seed, topology: this.topology, rating: this.rating },
+        {
+          signal: controller.signal,
+          onProgress: (attempt, maxAttempts) => this.emit({ type: 'PROGRESS', attempt, maxAttempts })
+        }
+      );
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') return;
+      console.error('Board Generation Error:', error);
+      generated = null;
+    }
+    // A generator that ignores the signal still must not start a disposed game
+    if (controller.signal.aborted) return;
+    this.generation = null;
+
+    if (!generated) {
+      this.update({ status: GameStatus.FAILED });
+      this.emit({ type: 'FAILED' });
+      return;
+    }
+    const board = cloneBoard(generated);
+    floodFill(board, x, y, this.topology);
+    this.stopwatch.reset();
+    this.stopwatch.start();
+    this.update({
+      initialBoard: generated,
+      board,
+      status: GameStatus.PLAYING,
+      timeLimitMs: this.variant === 'BLITZ' ? BLITZ_TIME.baseMs + BLITZ_TIME.perMineMs * this.mines : null,
+      actions: [{ type: 'REVEAL', x, y, time: 0 }]
+    });
+    this.emit({ type: 'STARTED', seed: this.state.seed });
+    this.checkClock();
+  }
+
+  /**
+   * Continues a saved game; only a fresh engine can take one, and never a
+   * BLITZ one, whose countdown is not part of a save.
+   */
+  resume(game: ResumedGame): void {
+    if (this.state.status !== GameStatus.IDLE || this.variant === 'BLITZ') return;
+    this.stopwatch.reset(game.elapsedMs);
+    this.stopwatch.start();
+    this.update({
+      initialBoard: game.initialBoard,
+      board: game.board,
+      flags: game.flags,
+      hits: countHits(game.board),
+      status: GameStatus.PLAYING,
+      startCell: game.startCell,
+      actions: game.actions,
+      assisted: game.assisted
+    });
+  }
+
+  /** Cancels a generation in flight, stops the clock and drops all subscribers. */
+  dispose(): void {
+    this.generation?.abort();
+    this.generation = null;
+    if (this.deadline !== null) clearTimeout(this.deadline);
+    this.deadline = null;
+    this.stopwatch.stop();
+    this.listeners.clear();
+  }
+
+  private time(): number {
+    return Math.round(this.stopwatch.ms);
+  }
+
+  private snapshot(): Snapshot {
+    const { board, flags, hits, status } = this.state;
+    return { board: clearHints(board), flags, hits, status };
+  }
+
+  /**
+   * Ends a BLITZ game whose countdown has run out, or else sets a timer for
+   * when it will; a stopwatch paused from outside only makes the timer check
+   * again later. True when this call ended the game.
+   */
+  private checkClock(): boolean {
+    if (this.deadline !== null) clearTimeout(this.deadline);
+    this.deadline = null;
+    const { status, timeLimitMs } = this.state;
+    if (status !== GameStatus.PLAYING || timeLimitMs === null) return false;
+
+    const left = timeLimitMs - this.stopwatch.ms;
+    if (left > 0) {
+      this.deadline = setTimeout(() => this.checkClock(), left);
+      return false;
+    }
+    this.stopwatch.stop();
+    this.update({ status: GameStatus.LOST });
+    this.emit({ type: 'LOST', timeMs: this.stopwatch.ms });
+    return true;
+  }
+
+  private move(move: Omit<GameAction, 'time'>): void {
+    const logged: GameAction = { ...move, time: this.time() };
+    const board = applyAction(this.state.board, logged, this.topology);
+    const status = frameStatus(board, this.lives);
+    this.undoStack.push(this.snapshot());
+    this.redoStack = [];
+    if (status !== GameStatus.PLAYING) this.stopwatch.stop();
+
+    // Every opening the move cleared buys more time on the countdown
+    let { timeLimitMs } = this.state;
+    if (timeLimitMs !== null) {
+      const cleared = countClearedOpenings(board, this.topology) - countClearedOpenings(this.state.board, this.topology);
+      timeLimitMs += cleared * BLITZ_TIME.bonusMs;
+    }
+    this.update({ board, flags: countFlags(board), hits: countHits(board), status, timeLimitMs, actions: [...this.state.actions, logged] });
+    this.checkClock();
+    this.emit({ type: 'MOVE', action: logged });
+    if (status === GameStatus.WON) this.emit({ type: 'WON', timeMs: this.stopwatch.ms });
+    if (status === GameStatus.LOST) this.emit({ type: 'LOST', timeMs: this.stopwatch.ms });
+  }
+
+  // Undo is an aid and marks the game as assisted; redo only takes back an undo
+  private restore(snapshot: Snapshot, type: 'UNDO' | 'REDO'): void {
+    if (snapshot.status === GameStatus.PLAYING) this.stopwatch.start();
+    else this.stopwatch.stop();
+    const logged: GameAction = { type, time: this.time() };
+    this.update({
+      ...snapshot,
+      actions: [...this.state.actions, logged],
+      assisted: this.state.assisted || type === 'UNDO'
+    });
+    this.emit({ type: 'MOVE', action: logged });
+  }
+
+  private update(patch: Partial<EngineState>): void {
+    const next = { ...this.state, ...patch };
+    const live = this.undoable && (next.status === GameStatus.PLAYING || next.status === GameStatus.LOST);
+    this.state = { ...next, canUndo: live && this.undoStack.length > 0, canRedo: live && this.redoStack.length > 0 };
+    this.emit({ type: 'CHANGE' });
+  }
+
+  private emit(event: EngineEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+}
@@ -1,166 +1,441 @@
 
-import { Board, CellData } from '../types';
+import { Board, ClickCounts, DeductionRule, DifficultyLevel, Hint, LogicRating, LogicScore, Topology } from '../types';
+import { CUSTOM_LIMITS, DIFFICULTIES, LOGIC_RATING_THRESHOLDS } from '../constants';
+import { explainDeduction, explainKnownMines } from './explain';
+import { getNeighbors } from './grid';
+import { Random } from './random';
+import { deduce, Deduction, KnownCell, RULE_ORDER } from './solver';
+
+/** One pass of the solver: the deductions it made together, all with the same rule. */
+export interface SolveRound {
+  rule: DeductionRule;
+  deductions: Deduction[];
+}
 
 /**
- * Basic Solvability Checker:
- * Simulates human-like logic (Simple Single-Cell Constraint)
- * Checks if the board can be fully solved without guessing.
+ * Plays the board from the start cell using only the deductions in `deduce`
+ * and returns everything a perfect logician ends up knowing. Cells already
+ * revealed on `board` count as known from the outset. Each pass is appended
+ * to `trace` when one is given.
  */
-export function isSolvable(board: Board, startX: number, startY: number): boolean {
+function solveFrom(board: Board, startX: number, startY: number, topology: Topology, trace?: SolveRound[]): KnownCell[][] {
   const rows = board.length;
   const cols = board[0].length;
-  const solved = board.map(row => row.map(cell => ({ 
-    revealed: cell.isRevealed, 
-    flagged: false 
-  })));
+  let totalMines = 0;
+  const known: KnownCell[][] = board.map(row => row.map(cell => {
+    if (cell.isMine) totalMines++;
+    return { isRevealed: cell.isRevealed, isFlagged: false, neighborCount: cell.neighborCount };
+  }));
 
   const reveal = (x: number, y: number) => {
-    if (x < 0 || x >= rows || y < 0 || y >= cols || solved[x][y].revealed) return;
-    solved[x][y].revealed = true;
+    if (x < 0 || x >= rows || y < 0 || y >= cols || known[x][y].isRevealed) return;
+    known[x][y].isRevealed = true;
     if (board[x][y].neighborCount === 0) {
-      for (let i = -1; i <= 1; i++) {
-        for (let j = -1; j <= 1; j++) {
-          reveal(x + i, y + j);
-        }
-      }
+      getNeighbors(x, y, rows, cols, topology).forEach(n => reveal(n.r, n.c));
     }
   };
   reveal(startX, startY);
 
-  let progress = true;
-  while (progress) {
-    progress = false;
+  let steps = deduce(known, totalMines, topology);
+  while (steps.length > 0) {
+    trace?.push({ rule: steps[0].rule, deductions: steps });
+    steps.forEach(step => {
+      if (step.type === 'MINE') known[step.x][step.y].isFlagged = true;
+      else reveal(step.x, step.y);
+    });
+    steps = deduce(known, totalMines, topology);
+  }
+  return known;
+}
+
+function isCleared(board: Board, known: KnownCell[][]): boolean {
+  return board.every((row, r) => row.every((cell, c) => cell.isMine || known[r][c].isRevealed));
+}
+
+/**
+ * Solvability Checker:
+ * Replays the board from the start cell using only the deductions in
+ * `deduce` (single-cell, subset/overlap, enumeration and mine-count rules)
+ * and checks that every safe cell can be uncovered without guessing.
+ */
+export function isSolvable(board: Board, startX: number, startY: number, topology: Topology = 'SQUARE'): boolean {
+  return isCleared(board, solveFrom(board, startX, startY, topology));
+}
 
-    for (let r = 0; r < rows; r++) {
-      for (let c = 0; c < cols; c++) {
-        if (!solved[r][c].revealed || board[r][c].neighborCount === 0) continue;
+export interface SolveTrace {
+  /** What the solver knows once it gets stuck or finishes. */
+  known: KnownCell[][];
+  rounds: SolveRound[];
+  cleared: boolean;
+}
 
-        const neighbors = getNeighbors(r, c, rows, cols);
-        const hidden = neighbors.filter(n => !solved[n.r][n.c].revealed);
-        const flaggedCount = neighbors.filter(n => solved[n.r][n.c].flagged).length;
-        const unflaggedHidden = hidden.filter(n => !solved[n.r][n.c].flagged);
+/** Like isSolvable, but also reports every pass the solver made on the way. */
+export function traceSolve(board: Board, startX: number, startY: number, topology: Topology = 'SQUARE'): SolveTrace {
+  const rounds: SolveRound[] = [];
+  const known = solveFrom(board, startX, startY, topology, rounds);
+  return { known, rounds, cleared: isCleared(board, known) };
+}
 
-        if (board[r][c].neighborCount === flaggedCount + unflaggedHidden.length && unflaggedHidden.length > 0) {
-          unflaggedHidden.forEach(n => { solved[n.r][n.c].flagged = true; });
-          progress = true;
-        }
+/**
+ * Scores a solve by its hardest technique and by how many deductions went
+ * beyond a single number. Every rule past SUBSET makes a board at least
+ * TRICKY, enumeration and mine counting make it FIENDISH, and so do long
+ * enough chains of easier ones.
+ */
+export function rateSolve(rounds: SolveRound[]): LogicScore {
+  let hardest: DeductionRule = 'SINGLE';
+  let nonTrivial = 0;
+  rounds.forEach(round => {
+    if (RULE_ORDER.indexOf(round.rule) > RULE_ORDER.indexOf(hardest)) hardest = round.rule;
+    if (round.rule !== 'SINGLE') nonTrivial += round.deductions.length;
+  });
 
-        if (board[r][c].neighborCount === flaggedCount && unflaggedHidden.length > 0) {
-          unflaggedHidden.forEach(n => reveal(n.r, n.c));
-          progress = true;
-        }
-      }
+  const level = RULE_ORDER.indexOf(hardest);
+  const rating: LogicRating =
+    level >= RULE_ORDER.indexOf('ENUMERATION') || nonTrivial >= LOGIC_RATING_THRESHOLDS.fiendish ? 'FIENDISH'
+    : level >= RULE_ORDER.indexOf('OVERLAP') || nonTrivial >= LOGIC_RATING_THRESHOLDS.tricky ? 'TRICKY'
+    : 'EASY';
+  return { rating, hardest, nonTrivial };
+}
+
+/** The logic rating of a board played from the given start cell. */
+export function rateBoard(board: Board, startX: number, startY: number, topology: Topology = 'SQUARE'): LogicScore {
+  return rateSolve(traceSolve(board, startX, startY, topology).rounds);
+}
+
+/**
+ * Finds the easiest logical move available on the current board, treating
+ * the player's flags as known mines, together with the reasoning behind it.
+ * Without `canFlag` only safe cells are suggested: deduced mines become known
+ * constraints, as the player would keep them in mind, until a safe cell follows.
+ */
+export function findHint(board: Board, totalMines: number, topology: Topology = 'SQUARE', canFlag = true): Hint | null {
+  let known = board;
+  const mines: Deduction[] = [];
+  for (;;) {
+    const steps = deduce(known, totalMines, topology);
+    const step = canFlag ? steps[0] : steps.find(s => s.type === 'SAFE');
+    if (step) {
+      const explanation = explainDeduction(known, step, totalMines, topology, canFlag);
+      return { ...step, steps: mines.length > 0 ? [explainKnownMines(mines), ...explanation] : explanation };
     }
+    if (steps.length === 0) return null;
+    known = known.map(row => row.map(cell => ({ ...cell })));
+    steps.forEach(s => { known[s.x][s.y].isFlagged = true; });
+    mines.push(...steps);
   }
+}
+
+export function createEmptyBoard(rows: number, cols: number): Board {
+  return Array.from({ length: rows }, (_, x) =>
+    Array.from({ length: cols }, (_, y) => ({
+      x, y, isMine: false, isRevealed: false, isFlagged: false, neighborCount: 0
+    }))
+  );
+}
 
+/** The preset difficulty with exactly this size and mine count, if any. */
+export function findPreset(rows: number, cols: number, mines: number): DifficultyLevel | undefined {
+  return (Object.keys(DIFFICULTIES) as DifficultyLevel[]).find(level => {
+    const d = DIFFICULTIES[level];
+    return level !== DifficultyLevel.CUSTOM && d.rows === rows && d.cols === cols && d.mines === mines;
+  });
+}
+
+/** A fresh board with mines at the given `row * cols + col` positions and numbers filled in. */
+export function boardFromMines(rows: number, cols: number, mines: number[], topology: Topology = 'SQUARE'): Board {
+  const board = createEmptyBoard(rows, cols);
+  mines.forEach(i => { board[Math.floor(i / cols)][i % cols].isMine = true; });
+  countNeighborMines(board, topology);
+  return board;
+}
+
+/**
+ * Checks a board size and mine count against CUSTOM_LIMITS. Returns a message
+ * for the player, or null when the settings are playable.
+ */
+export function validateDifficulty(rows: number, cols: number, mines: number): string | null {
+  const { minSize, maxRows, maxCols, maxDensity, safeZone } = CUSTOM_LIMITS;
+  if (![rows, cols, mines].every(Number.isInteger)) return '行数、列数和雷数必须是整数。';
+  if (rows < minSize || rows > maxRows) return `行数必须在 ${minSize} 到 ${maxRows} 之间。`;
+  if (cols < minSize || cols > maxCols) return `列数必须在 ${minSize} 到 ${maxCols} 之间。`;
+  if (mines < 1) return '至少需要 1 颗雷。';
+
+  const cells = rows * cols;
+  if (mines > cells - safeZone) return `首点周围 3×3 区域必须安全，${rows}×${cols} 最多只能放 ${cells - safeZone} 颗雷。`;
+  const maxMines = Math.floor(cells * maxDensity);
+  if (mines > maxMines) {
+    return `雷密度不能超过 ${maxDensity * 100}%（${rows}×${cols} 最多 ${maxMines} 颗雷），否则几乎无法生成无需猜测的棋盘。`;
+  }
+  return null;
+}
+
+export interface GenerateOptions {
+  /** Source of randomness; pass a seeded one to reproduce a board. */
+  random?: Random;
+  /** Called before each fresh layout is tried. */
+  onProgress?: (attempt: number, maxAttempts: number) => void;
+  topology?: Topology;
+  /** Only accept layouts with this logic rating; any rating when absent. */
+  rating?: LogicRating;
+}
+
+/** Fresh random layouts tried before giving up. */
+export const MAX_GENERATION_ATTEMPTS = 500;
+/** Mine relocations tried on one layout before starting over. */
+const MAX_REPAIRS = 40;
+
+function countNeighborMines(board: Board, topology: Topology): void {
+  const rows = board.length;
+  const cols = board[0].length;
   for (let r = 0; r < rows; r++) {
     for (let c = 0; c < cols; c++) {
-      if (!board[r][c].isMine && !solved[r][c].revealed) return false;
+      board[r][c].neighborCount = board[r][c].isMine
+        ? 0
+        : getNeighbors(r, c, rows, cols, topology).filter(n => board[n.r][n.c].isMine).length;
     }
   }
-  return true;
 }
 
-function getNeighbors(r: number, c: number, rows: number, cols: number) {
-  const neighbors = [];
-  for (let i = -1; i <= 1; i++) {
-    for (let j = -1; j <= 1; j++) {
-      const nr = r + i, nc = c + j;
-      if (nr >= 0 && nr < rows && nc >= 0 && nc < cols && (i !== 0 || j !== 0)) {
-        neighbors.push({ r: nr, c: nc });
-      }
-    }
-  }
-  return neighbors;
+/** The start cell and its neighbours, as `row * cols + col`; no mine is ever placed there. */
+function startZone(rows: number, cols: number, startX: number, startY: number, topology: Topology): Set<number> {
+  return new Set([
+    startX * cols + startY,
+    ...getNeighbors(startX, startY, rows, cols, topology).map(n => n.r * cols + n.c)
+  ]);
 }
 
 /**
- * Finds the first logical move available on the current board.
+ * Moves one mine the solver could not pin down from the edge of the solved
+ * region to a cell nobody has seen yet, so the next pass can get further.
+ * Returns false when there is nothing to move or nowhere to put it.
  */
-export function findHint(board: Board): { x: number; y: number; type: 'SAFE' | 'MINE' } | null {
+function relocateFrontierMine(board: Board, known: KnownCell[][], zone: Set<number>, random: Random, topology: Topology): boolean {
   const rows = board.length;
   const cols = board[0].length;
+  const touchesRevealed = (r: number, c: number) =>
+    getNeighbors(r, c, rows, cols, topology).some(n => known[n.r][n.c].isRevealed);
 
+  const stuck: { r: number; c: number }[] = [];
+  const targets: { r: number; c: number }[] = [];
   for (let r = 0; r < rows; r++) {
     for (let c = 0; c < cols; c++) {
-      if (!board[r][c].isRevealed || board[r][c].neighborCount === 0) continue;
-
-      const neighbors = getNeighbors(r, c, rows, cols);
-      const hidden = neighbors.filter(n => !board[n.r][n.c].isRevealed);
-      const flaggedCount = neighbors.filter(n => board[n.r][n.c].isFlagged).length;
-      const unflaggedHidden = hidden.filter(n => !board[n.r][n.c].isFlagged);
-
-      if (unflaggedHidden.length === 0) continue;
-
-      // Rule 1: All unflagged hidden must be mines
-      if (board[r][c].neighborCount === flaggedCount + unflaggedHidden.length) {
-        return { x: unflaggedHidden[0].r, y: unflaggedHidden[0].c, type: 'MINE' };
-      }
-
-      // Rule 2: All unflagged hidden must be safe
-      if (board[r][c].neighborCount === flaggedCount) {
-        return { x: unflaggedHidden[0].r, y: unflaggedHidden[0].c, type: 'SAFE' };
-      }
+      if (known[r][c].isRevealed || known[r][c].isFlagged) continue;
+      const isNearStart = zone.has(r * cols + c);
+      if (board[r][c].isMine && touchesRevealed(r, c)) stuck.push({ r, c });
+      else if (!board[r][c].isMine && !isNearStart && !touchesRevealed(r, c)) targets.push({ r, c });
     }
   }
-  return null;
-}
+  if (stuck.length === 0 || targets.length === 0) return false;
 
-export function createEmptyBoard(rows: number, cols: number): Board {
-  return Array.from({ length: rows }, (_, x) =>
-    Array.from({ length: cols }, (_, y) => ({
-      x, y, isMine: false, isRevealed: false, isFlagged: false, neighborCount: 0
-    }))
-  );
+  const from = stuck[Math.floor(random() * stuck.length)];
+  const to = targets[Math.floor(random() * targets.length)];
+  board[from.r][from.c].isMine = false;
+  board[to.r][to.c].isMine = true;
+  countNeighborMines(board, topology);
+  return true;
 }
 
-export function generateGuaranteedBoard(rows: number, cols: number, mines: number, startX: number, startY: number): Board {
-  let attempts = 0;
-  const maxAttempts = 500;
-
-  while (attempts < maxAttempts) {
-    attempts++;
+/**
+ * Generates a layout that `isSolvable` accepts from the given start cell.
+ * Each random layout is repaired by relocating frontier mines where the
+ * solver gets stuck before a fresh one is drawn. With a `rating`, solvable
+ * layouts that rate differently are dropped too. Returns null when no
+ * acceptable layout turns up within the attempt limit, or when the mines do
+ * not fit outside the start cell and its neighbours.
+ */
+export function generateGuaranteedBoard(
+  rows: number,
+  cols: number,
+  mines: number,
+  startX: number,
+  startY: number,
+  options: GenerateOptions = {}
+): Board | null {
+  const random = options.random ?? Math.random;
+  const topology = options.topology ?? 'SQUARE';
+  const zone = startZone(rows, cols, startX, startY, topology);
+  // The mines would never all fit outside the start zone
+  if (mines > rows * cols - zone.size) return null;
+  for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+    options.onProgress?.(attempt, MAX_GENERATION_ATTEMPTS);
     const board = createEmptyBoard(rows, cols);
     let placed = 0;
     while (placed < mines) {
-      const rx = Math.floor(Math.random() * rows);
-      const ry = Math.floor(Math.random() * cols);
-      const isNearStart = Math.abs(rx - startX) <= 1 && Math.abs(ry - startY) <= 1;
-      if (!board[rx][ry].isMine && !isNearStart) {
+      const rx = Math.floor(random() * rows);
+      const ry = Math.floor(random() * cols);
+      if (!board[rx][ry].isMine && !zone.has(rx * cols + ry)) {
         board[rx][ry].isMine = true;
         placed++;
       }
     }
+    countNeighborMines(board, topology);
 
-    for (let r = 0; r < rows; r++) {
-      for (let c = 0; c < cols; c++) {
-        if (board[r][c].isMine) continue;
-        let count = 0;
-        for (let i = -1; i <= 1; i++) {
-          for (let j = -1; j <= 1; j++) {
-            const nr = r + i, nc = c + j;
-            if (nr >= 0 && nr < rows && nc >= 0 && nc < cols && board[nr][nc].isMine) count++;
-          }
-        }
-        board[r][c].neighborCount = count;
+    for (let repair = 0; ; repair++) {
+      const rounds: SolveRound[] = [];
+      const known = solveFrom(board, startX, startY, topology, options.rating ? rounds : undefined);
+      if (isCleared(board, known)) {
+        if (!options.rating || rateSolve(rounds).rating === options.rating) return board;
+        break;
       }
+      if (repair === MAX_REPAIRS || !relocateFrontierMine(board, known, zone, random, topology)) break;
     }
-
-    if (isSolvable(board, startX, startY)) return board;
   }
-  return createEmptyBoard(rows, cols); 
+  return null;
 }
 
-export function floodFill(board: Board, x: number, y: number): void {
+export function floodFill(board: Board, x: number, y: number, topology: Topology = 'SQUARE'): void {
   const rows = board.length;
   const cols = board[0].length;
   if (x < 0 || x >= rows || y < 0 || y >= cols || board[x][y].isRevealed || board[x][y].isFlagged) return;
   board[x][y].isRevealed = true;
   if (board[x][y].neighborCount === 0) {
-    for (let i = -1; i <= 1; i++) {
-      for (let j = -1; j <= 1; j++) {
-        floodFill(board, x + i, y + j);
+    getNeighbors(x, y, rows, cols, topology).forEach(n => floodFill(board, n.r, n.c, topology));
+  }
+}
+
+/**
+ * 3BV (Bechtel's Board Benchmark Value): the minimum number of left clicks
+ * needed to clear the board. Each opening counts once, plus every numbered
+ * cell that no opening uncovers. `solved` counts the parts already
+ * uncovered on this board: an opening once any of its zeros is revealed,
+ * an isolated number once it is revealed. `openings` is the opening share
+ * of `solved`.
+ */
+function measure3BV(board: Board, topology: Topology): { total: number; solved: number; openings: number } {
+  const rows = board.length;
+  const cols = board[0].length;
+  const covered = board.map(row => row.map(() => false));
+  let total = 0;
+  let solved = 0;
+  let openings = 0;
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const cell = board[r][c];
+      if (covered[r][c] || cell.isMine || cell.neighborCount !== 0) continue;
+      total++;
+      let opened = cell.isRevealed;
+      covered[r][c] = true;
+      const stack = [{ r, c }];
+      while (stack.length) {
+        const current = stack.pop()!;
+        getNeighbors(current.r, current.c, rows, cols, topology).forEach(n => {
+          if (covered[n.r][n.c]) return;
+          covered[n.r][n.c] = true;
+          if (board[n.r][n.c].neighborCount === 0) {
+            opened = opened || board[n.r][n.c].isRevealed;
+            stack.push(n);
+          }
+        });
+      }
+      if (opened) {
+        solved++;
+        openings++;
       }
     }
   }
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      if (covered[r][c] || board[r][c].isMine) continue;
+      total++;
+      if (board[r][c].isRevealed) solved++;
+    }
+  }
+  return { total, solved, openings };
+}
+
+export function calculate3BV(board: Board, topology: Topology = 'SQUARE'): number {
+  return measure3BV(board, topology).total;
+}
+
+export function calculateSolved3BV(board: Board, topology: Topology = 'SQUARE'): number {
+  return measure3BV(board, topology).solved;
+}
+
+/** Openings (connected regions of zeros) already uncovered on the board. */
+export function countClearedOpenings(board: Board, topology: Topology = 'SQUARE'): number {
+  return measure3BV(board, topology).openings;
+}
+
+export type ClickKind = 'LEFT' | 'RIGHT' | 'CHORD';
+
+export const EMPTY_CLICK_COUNTS: ClickCounts = { left: 0, right: 0, chord: 0, wasted: 0 };
+
+/**
+ * Classifies a click on the board before it is applied: what kind of
+ * click it is and whether it will change anything at all.
+ */
+export function classifyClick(
+  board: Board,
+  x: number,
+  y: number,
+  gesture: 'REVEAL' | 'FLAG' | 'CHORD',
+  topology: Topology = 'SQUARE'
+): { kind: ClickKind; wasted: boolean } {
+  const cell = board[x][y];
+  if (gesture === 'REVEAL') return { kind: 'LEFT', wasted: cell.isRevealed || cell.isFlagged };
+  if (gesture === 'FLAG') return { kind: 'RIGHT', wasted: cell.isRevealed };
+  return { kind: 'CHORD', wasted: chordTargets(board, x, y, topology) === null };
+}
+
+export function tallyClick(counts: ClickCounts, click: { kind: ClickKind; wasted: boolean }): ClickCounts {
+  return {
+    left: counts.left + (click.kind === 'LEFT' ? 1 : 0),
+    right: counts.right + (click.kind === 'RIGHT' ? 1 : 0),
+    chord: counts.chord + (click.kind === 'CHORD' ? 1 : 0),
+    wasted: counts.wasted + (click.wasted ? 1 : 0)
+  };
+}
+
+export interface Performance {
+  bbbvPerSecond: number;
+  /** Solved 3BV per click, wasted clicks included. 1 means no click was spared. */
+  efficiency: number;
+}
+
+export function computePerformance(solvedBbbv: number, clicks: ClickCounts, elapsedMs: number): Performance {
+  const total = clicks.left + clicks.right + clicks.chord;
+  return {
+    bbbvPerSecond: elapsedMs > 0 ? solvedBbbv / (elapsedMs / 1000) : 0,
+    efficiency: total > 0 ? solvedBbbv / total : 0
+  };
+}
+
+export type ChordResult = 'IGNORED' | 'REVEALED' | 'EXPLODED';
+
+/**
+ * The unflagged hidden neighbours a chord on this cell would reveal, or null
+ * when the cell is not a revealed number with exactly matching flags.
+ */
+function chordTargets(board: Board, x: number, y: number, topology: Topology) {
+  const cell = board[x][y];
+  if (!cell.isRevealed || cell.neighborCount === 0) return null;
+
+  const neighbors = getNeighbors(x, y, board.length, board[0].length, topology).map(n => board[n.r][n.c]);
+  const flagged = neighbors.filter(n => n.isFlagged).length;
+  const targets = neighbors.filter(n => !n.isFlagged && !n.isRevealed);
+  return flagged === cell.neighborCount && targets.length > 0 ? targets : null;
+}
+
+/**
+ * Chording: on a revealed number whose adjacent flags match it, reveals every
+ * unflagged neighbour. A wrong flag means one of those neighbours is a mine,
+ * which is revealed and ends the game.
+ */
+export function chordReveal(board: Board, x: number, y: number, topology: Topology = 'SQUARE'): ChordResult {
+  const targets = chordTargets(board, x, y, topology);
+  if (!targets) return 'IGNORED';
+
+  let exploded = false;
+  targets.forEach(n => {
+    if (n.isMine) {
+      n.isRevealed = true;
+      exploded = true;
+    } else {
+      floodFill(board, n.x, n.y, topology);
+    }
+  });
+  return exploded ? 'EXPLODED' : 'REVEALED';
 }
@@ -0,0 +1,35 @@
+import { Topology } from '../types';
+
+const KING_MOVES = [[-1, -1], [-1, 0], [-1, 1], [0, -1], [0, 1], [1, -1], [1, 0], [1, 1]];
+const KNIGHT_MOVES = [[-2, -1], [-2, 1], [-1, -2], [-1, 2], [1, -2], [1, 2], [2, -1], [2, 1]];
+// Hex cells are stored in offset rows: odd rows sit half a cell to the right of even ones
+const HEX_MOVES_EVEN_ROW = [[-1, -1], [-1, 0], [0, -1], [0, 1], [1, -1], [1, 0]];
+const HEX_MOVES_ODD_ROW = [[-1, 0], [-1, 1], [0, -1], [0, 1], [1, 0], [1, 1]];
+
+function movesFor(r: number, topology: Topology): number[][] {
+  switch (topology) {
+    case 'HEX': return r % 2 === 0 ? HEX_MOVES_EVEN_ROW : HEX_MOVES_ODD_ROW;
+    case 'KNIGHT': return KNIGHT_MOVES;
+    default: return KING_MOVES;
+  }
+}
+
+/**
+ * Returns the neighbours of a cell under the given topology. This is the
+ * only place adjacency is defined; everything from the generator to the
+ * solver goes through it.
+ */
+export function getNeighbors(r: number, c: number, rows: number, cols: number, topology: Topology = 'SQUARE') {
+  const neighbors: { r: number; c: number }[] = [];
+  movesFor(r, topology).forEach(([i, j]) => {
+    let nr = r + i, nc = c + j;
+    if (topology === 'TORUS') {
+      nr = (nr + rows) % rows;
+      nc = (nc + cols) % cols;
+    } else if (nr < 0 || nr >= rows || nc < 0 || nc >= cols) {
+      return;
+    }
+    neighbors.push({ r: nr, c: nc });
+  });
+  return neighbors;
+}
@@ -0,0 +1,166 @@
+import { Board, Topology } from '../types';
+import { analyzeFrontier, Component, Solutions } from './solver';
+
+export interface MineProbabilities {
+  /** Mine probability of every hidden, unflagged cell; null elsewhere. */
+  grid: (number | null)[][];
+  /** False when a frontier component was too large and had to be sampled. */
+  exact: boolean;
+}
+
+/** Solutions drawn for each component too large to enumerate. */
+const SAMPLE_COUNT = 300;
+/** Backtracking nodes allowed per drawn sample. */
+const SAMPLE_BUDGET = 20000;
+
+/**
+ * Draws solutions of a large component by randomized backtracking. The
+ * samples are only approximately uniform, which is good enough to rank
+ * guesses. Returns null if no solution was found within budget.
+ */
+function sampleComponent(comp: Component): Solutions | null {
+  const cellCons = comp.cells.map(cell =>
+    comp.constraints.map((con, ci) => (con.cells.includes(cell) ? ci : -1)).filter(ci => ci >= 0)
+  );
+  const solutions: Solutions = new Map();
+
+  for (let sample = 0; sample < SAMPLE_COUNT; sample++) {
+    const need = comp.constraints.map(c => c.mines);
+    const left = comp.constraints.map(c => c.cells.length);
+    const assignment: boolean[] = new Array(comp.cells.length).fill(false);
+    let nodes = 0;
+
+    const walk = (i: number): boolean => {
+      if (++nodes > SAMPLE_BUDGET) return false;
+      if (i === comp.cells.length) return true;
+
+      const first = Math.random() < 0.5;
+      for (const isMine of [first, !first]) {
+        let valid = true;
+        cellCons[i].forEach(ci => {
+          left[ci]--;
+          if (isMine) need[ci]--;
+          if (need[ci] < 0 || need[ci] > left[ci]) valid = false;
+        });
+        assignment[i] = isMine;
+        if (valid && walk(i + 1)) return true;
+        cellCons[i].forEach(ci => {
+          left[ci]++;
+          if (isMine) need[ci]++;
+        });
+        assignment[i] = false;
+      }
+      return false;
+    };
+
+    if (!walk(0)) continue;
+    const mines = assignment.filter(Boolean).length;
+    let entry = solutions.get(mines);
+    if (!entry) {
+      entry = { count: 0, hits: new Array(comp.cells.length).fill(0) };
+      solutions.set(mines, entry);
+    }
+    entry.count++;
+    assignment.forEach((isMine, j) => { if (isMine) entry!.hits[j]++; });
+  }
+
+  return solutions.size > 0 ? solutions : null;
+}
+
+/** log C(n, k) for every k in [0, n]. */
+function logBinomials(n: number): number[] {
+  const logFactorial = [0];
+  for (let i = 1; i <= n; i++) logFactorial.push(logFactorial[i - 1] + Math.log(i));
+  return logFactorial.map((_, k) => logFactorial[n] - logFactorial[k] - logFactorial[n - k]);
+}
+
+/**
+ * Relative number of ways the given components can place `s` mines in
+ * total, for every s in [0, limit]. Rescaled after each step to stay finite;
+ * only ratios are meaningful.
+ */
+function convolve(dists: Solutions[], limit: number): number[] {
+  let ways = new Array(limit + 1).fill(0);
+  ways[0] = 1;
+  dists.forEach(dist => {
+    const next = new Array(limit + 1).fill(0);
+    ways.forEach((w, s) => {
+      if (w === 0) return;
+      dist.forEach((entry, k) => { if (s + k <= limit) next[s + k] += w * entry.count; });
+    });
+    const max = Math.max(...next);
+    ways = max > 0 ? next.map(w => w / max) : next;
+  });
+  return ways;
+}
+
+/**
+ * Computes the probability that each hidden cell is a mine, given the
+ * revealed numbers, the flags (taken as mines) and the total mine count.
+ * Every layout consistent with what the player sees is weighted equally.
+ * Returns null when the position is contradictory.
+ */
+export function computeMineProbabilities(board: Board, totalMines: number, topology: Topology = 'SQUARE'): MineProbabilities | null {
+  const analysis = analyzeFrontier(board, totalMines, topology);
+  if (!analysis || analysis.remaining === undefined) return null;
+
+  const { cols, components, interior } = analysis;
+  const remaining = analysis.remaining;
+  let exact = true;
+
+  const dists: Solutions[] = [];
+  for (const comp of components) {
+    const dist = comp.solutions ?? sampleComponent(comp);
+    if (!dist) return null;
+    if (!comp.solutions) exact = false;
+    dists.push(dist);
+  }
+
+  const logC = logBinomials(interior.length);
+  const maxLogC = Math.max(...logC);
+  const interiorWays = (t: number) =>
+    (t < 0 || t > interior.length ? 0 : Math.exp(logC[t] - maxLogC));
+
+  const grid: (number | null)[][] = board.map(row => row.map(() => null));
+  const set = (index: number, p: number) => { grid[Math.floor(index / cols)][index % cols] = p; };
+
+  for (let i = 0; i < components.length; i++) {
+    const others = convolve(dists.filter((_, j) => j !== i), remaining);
+    const weightOf = (k: number) =>
+      others.reduce((sum, w, s) => sum + w * interiorWays(remaining - k - s), 0);
+
+    let total = 0;
+    const mineWeight = new Array(components[i].cells.length).fill(0);
+    dists[i].forEach((entry, k) => {
+      const weight = weightOf(k);
+      total += weight * entry.count;
+      entry.hits.forEach((h, j) => { mineWeight[j] += weight * h; });
+    });
+    if (total === 0) return null;
+    components[i].cells.forEach((cell, j) => set(cell, mineWeight[j] / total));
+  }
+
+  if (interior.length > 0) {
+    const all = convolve(dists, remaining);
+    let total = 0;
+    let expectedMines = 0;
+    all.forEach((w, s) => {
+      const weight = w * interiorWays(remaining - s);
+      total += weight;
+      expectedMines += weight * (remaining - s);
+    });
+    if (total === 0) return null;
+    interior.forEach(cell => set(cell, expectedMines / total / interior.length));
+  }
+
+  return { grid, exact };
+}
+
+/** The hidden cell least likely to be a mine. */
+export function findSafestGuess(probabilities: MineProbabilities): { x: number; y: number; probability: number } | null {
+  let best: { x: number; y: number; probability: number } | null = null;
+  probabilities.grid.forEach((row, x) => row.forEach((p, y) => {
+    if (p !== null && (!best || p < best.probability)) best = { x, y, probability: p };
+  }));
+  return best;
+}
@@ -0,0 +1,57 @@
+import { Board, DeductionRule, Puzzle } from '../types';
+import { boardFromMines, traceSolve } from './gameLogic';
+import { RULE_ORDER } from './solver';
+
+/** The puzzle's starting position. */
+export function puzzleBoard(puzzle: Puzzle): Board {
+  const board = boardFromMines(puzzle.rows, puzzle.cols, puzzle.mines);
+  puzzle.revealed.forEach(i => { board[Math.floor(i / puzzle.cols)][i % puzzle.cols].isRevealed = true; });
+  return board;
+}
+
+export interface PuzzleCheck {
+  /** Problems that make the puzzle unplayable; empty for a valid puzzle. */
+  errors: string[];
+  /** Hidden cells logic cannot decide. A valid puzzle has none. */
+  undetermined: { x: number; y: number }[];
+  /** The hardest rule the solution needs. */
+  hardest: DeductionRule | null;
+  /** Solver passes needed, a rough measure of length. */
+  rounds: number;
+}
+
+/**
+ * Confirms the puzzle has a unique logical solution: starting from the
+ * revealed cells and the total mine count, the solver must decide every
+ * hidden cell. Since the solver is sound, that also proves no other mine
+ * layout fits the clues.
+ */
+export function checkPuzzle(puzzle: Puzzle): PuzzleCheck {
+  const mines = new Set(puzzle.mines);
+  const errors: string[] = [];
+  if (puzzle.revealed.some(i => mines.has(i))) errors.push('揭开的格子里不能有雷。');
+  if (puzzle.revealed.length === 0) errors.push('至少要揭开一个格子作为线索。');
+  if (puzzle.revealed.length + mines.size === puzzle.rows * puzzle.cols) errors.push('所有安全格子都已揭开，没有可解的内容。');
+  if (errors.length > 0) return { errors, undetermined: [], hardest: null, rounds: 0 };
+
+  const board = puzzleBoard(puzzle);
+  const start = puzzle.revealed[0];
+  const { known, rounds } = traceSolve(board, Math.floor(start / puzzle.cols), start % puzzle.cols);
+
+  const undetermined: { x: number; y: number }[] = [];
+  known.forEach((row, x) => row.forEach((cell, y) => {
+    if (!cell.isRevealed && !cell.isFlagged) undetermined.push({ x, y });
+  }));
+  if (undetermined.length > 0) errors.push(`有 ${undetermined.length} 个格子无法仅凭逻辑确定，谜题的解不唯一。`);
+
+  const hardest = rounds.reduce<DeductionRule | null>(
+    (max, round) => (max === null || RULE_ORDER.indexOf(round.rule) > RULE_ORDER.indexOf(max) ? round.rule : max),
+    null
+  );
+  return { errors, undetermined, hardest, rounds: rounds.length };
+}
+
+/** Solved, as in a normal game, once every safe cell is revealed. */
+export function isPuzzleSolved(board: Board): boolean {
+  return board.every(row => row.every(cell => cell.isMine || cell.isRevealed));
+}
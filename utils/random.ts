@@ -0,0 +1,25 @@
+/** A source of uniformly distributed numbers in [0, 1), like `Math.random`. */
+export type Random = () => number;
+
+/**
+ * Mulberry32: a tiny, fast 32-bit PRNG. The same seed always yields the
+ * same sequence, which makes boards reproducible.
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+export function formatSeed(seed: number): string {
+  return seed.toString(36).toUpperCase();
+}
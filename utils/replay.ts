@@ -0,0 +1,85 @@
+import { Board, GameAction, GameStatus, Topology } from '../types';
+import { chordReveal, floodFill } from './gameLogic';
+
+export function cloneBoard(board: Board): Board {
+  return board.map(row => row.map(cell => ({ ...cell })));
+}
+
+/** Applies one recorded move to a copy of the board. */
+export function applyAction(board: Board, action: GameAction, topology: Topology = 'SQUARE'): Board {
+  const next: Board = board.map(row => row.map(cell => ({ ...cell, isHinted: false, hintType: null, isPremise: false })));
+  const { x, y } = action;
+  if (x === undefined || y === undefined) return next;
+
+  switch (action.type) {
+    case 'REVEAL':
+      if (next[x][y].isMine) next[x][y].isRevealed = true;
+      else floodFill(next, x, y, topology);
+      break;
+    case 'FLAG':
+      next[x][y].isFlagged = true;
+      break;
+    case 'UNFLAG':
+      next[x][y].isFlagged = false;
+      break;
+    case 'CHORD':
+      chordReveal(next, x, y, topology);
+      break;
+    case 'HINT':
+      next[x][y].isHinted = true;
+      next[x][y].hintType = action.hintType ?? null;
+      break;
+  }
+  // A mine that went off is a found mine, so numbers around it read right where a game plays on
+  next.forEach(row => row.forEach(cell => { if (cell.isMine && cell.isRevealed) cell.isFlagged = true; }));
+  return next;
+}
+
+/**
+ * Rebuilds the board after every logged action, starting from the freshly
+ * generated layout. UNDO and REDO step back and forth through the moves the
+ * same way they did during play; hints only highlight and are never undone.
+ */
+export function buildReplayFrames(initial: Board, actions: GameAction[], topology: Topology = 'SQUARE'): Board[] {
+  const frames: Board[] = [initial];
+  const done: Board[] = [initial];
+  const undone: Board[] = [];
+
+  actions.forEach(action => {
+    const current = done[done.length - 1];
+    if (action.type === 'UNDO') {
+      if (done.length > 1) undone.push(done.pop()!);
+      frames.push(done[done.length - 1]);
+    } else if (action.type === 'REDO') {
+      if (undone.length > 0) done.push(undone.pop()!);
+      frames.push(done[done.length - 1]);
+    } else if (action.type === 'HINT') {
+      frames.push(applyAction(current, action, topology));
+    } else {
+      const next = applyAction(current, action, topology);
+      done.push(next);
+      undone.length = 0;
+      frames.push(next);
+    }
+  });
+  return frames;
+}
+
+/** Mines revealed on the board, each one a hit taken. */
+export function countHits(board: Board): number {
+  return board.reduce((sum, row) => sum + row.filter(cell => cell.isMine && cell.isRevealed).length, 0);
+}
+
+/** Whether a replay frame shows a finished game, lost once `lives` mines have gone off. */
+export function frameStatus(board: Board, lives = 1): GameStatus {
+  let hidden = 0;
+  let hits = 0;
+  for (const row of board) {
+    for (const cell of row) {
+      if (cell.isMine && cell.isRevealed) hits++;
+      if (!cell.isMine && !cell.isRevealed) hidden++;
+    }
+  }
+  if (hits >= lives) return GameStatus.LOST;
+  return hidden === 0 ? GameStatus.WON : GameStatus.PLAYING;
+}
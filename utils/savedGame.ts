@@ -0,0 +1,40 @@
+import { Board, GameStatus, SavedGame } from '../types';
+import { VARIANT_LIVES } from '../constants';
+import { boardFromMines } from './gameLogic';
+import { buildReplayFrames, frameStatus } from './replay';
+
+/** Mine positions of a board as `row * cols + col`. */
+export function mineIndices(board: Board): number[] {
+  const cols = board[0].length;
+  const mines: number[] = [];
+  board.forEach((row, x) => row.forEach((cell, y) => { if (cell.isMine) mines.push(x * cols + y); }));
+  return mines;
+}
+
+export interface RestoredGame {
+  initialBoard: Board;
+  board: Board;
+  flags: number;
+}
+
+/**
+ * Rebuilds a saved game by replaying its moves onto the generated layout.
+ * Returns null when the save is malformed or does not hold a game still in
+ * progress.
+ */
+export function restoreSavedGame(saved: SavedGame): RestoredGame | null {
+  const { config, mines, actions } = saved;
+  if (!config || !Array.isArray(mines) || !Array.isArray(actions) || actions.length === 0) return null;
+  const cells = config.rows * config.cols;
+  if (!(cells > 0) || mines.some(i => !Number.isInteger(i) || i < 0 || i >= cells)) return null;
+
+  const topology = saved.topology ?? 'SQUARE';
+  const initialBoard = boardFromMines(config.rows, config.cols, mines, topology);
+  const frames = buildReplayFrames(initialBoard, actions, topology);
+  const last = frames[frames.length - 1];
+  if (frameStatus(last, VARIANT_LIVES[saved.variant ?? 'CLASSIC']) !== GameStatus.PLAYING) return null;
+
+  const board = last.map(row => row.map(cell => ({ ...cell, isHinted: false, hintType: null, isPremise: false })));
+  const flags = board.reduce((sum, row) => sum + row.filter(cell => cell.isFlagged).length, 0);
+  return { initialBoard, board, flags };
+}
@@ -0,0 +1,55 @@
+import { LogicRating, Topology } from '../types';
+
+/** Everything needed to regenerate a game exactly. */
+export interface SharedGame {
+  rows: number;
+  cols: number;
+  mines: number;
+  startX: number;
+  startY: number;
+  seed: number;
+  /** Absent means SQUARE. */
+  topology?: Topology;
+  /** The logic rating the board was generated for; absent means any. */
+  rating?: LogicRating;
+}
+
+// <rows>x<cols>-<mines>-<startX>.<startY>-<seed in base 36>[-<topology>][-L<rating>], e.g. 16x30-99-8.15-1Z141Z3-LT
+const SHARE_CODE_PATTERN = /^(\d+)x(\d+)-(\d+)-(\d+)\.(\d+)-([0-9a-z]{1,7})(?:-([thk]))?(?:-l([etf]))?$/i;
+
+// Square boards carry no suffix, so codes from before topologies still work
+const TOPOLOGY_CODES: Record<Exclude<Topology, 'SQUARE'>, string> = { TORUS: 'T', HEX: 'H', KNIGHT: 'K' };
+const RATING_CODES: Record<LogicRating, string> = { EASY: 'E', TRICKY: 'T', FIENDISH: 'F' };
+
+export const SHARE_CODE_PARAM = 'game';
+
+export function encodeShareCode(game: SharedGame): string {
+  const { rows, cols, mines, startX, startY, seed, topology = 'SQUARE', rating } = game;
+  const suffix = (topology === 'SQUARE' ? '' : `-${TOPOLOGY_CODES[topology]}`) + (rating ? `-L${RATING_CODES[rating]}` : '');
+  return `${rows}x${cols}-${mines}-${startX}.${startY}-${seed.toString(36).toUpperCase()}${suffix}`;
+}
+
+/** Parses a share code; returns null when it is malformed or out of range. */
+export function decodeShareCode(code: string): SharedGame | null {
+  const match = SHARE_CODE_PATTERN.exec(code.trim());
+  if (!match) return null;
+
+  const [rows, cols, mines, startX, startY] = match.slice(1, 6).map(Number);
+  const seed = parseInt(match[6], 36);
+  if (seed > 0xffffffff || startX >= rows || startY >= cols) return null;
+  const topology = (Object.keys(TOPOLOGY_CODES) as (keyof typeof TOPOLOGY_CODES)[])
+    .find(t => TOPOLOGY_CODES[t] === match[7]?.toUpperCase());
+  const rating = (Object.keys(RATING_CODES) as LogicRating[]).find(r => RATING_CODES[r] === match[8]?.toUpperCase());
+  return {
+    rows, cols, mines, startX, startY, seed,
+    ...(topology && { topology }),
+    ...(rating && { rating })
+  };
+}
+
+export function shareLink(code: string): string {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.searchParams.set(SHARE_CODE_PARAM, code);
+  return url.toString();
+}
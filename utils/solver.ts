@@ -0,0 +1,382 @@
+import { CellData, DeductionRule, Topology } from '../types';
+import { getNeighbors } from './grid';
+
+/**
+ * The part of a cell the solver may look at: exactly what the player sees.
+ * `neighborCount` is only ever read on revealed cells.
+ */
+export type KnownCell = Pick<CellData, 'isRevealed' | 'isFlagged' | 'neighborCount'>;
+
+export const RULE_ORDER: DeductionRule[] = ['SINGLE', 'SUBSET', 'OVERLAP', 'ENUMERATION', 'GLOBAL'];
+
+export interface Deduction {
+  x: number;
+  y: number;
+  type: 'SAFE' | 'MINE';
+  rule: DeductionRule;
+  /** Revealed number cells the conclusion was drawn from. */
+  premises: { x: number; y: number }[];
+}
+
+/** Frontier components larger than this are not enumerated. */
+const ENUMERATION_LIMIT = 20;
+/** Upper bound on backtracking nodes spent on a single component. */
+const ENUMERATION_BUDGET = 200000;
+
+/** A revealed number and the hidden, unflagged cells it still constrains. */
+export interface Constraint {
+  x: number;
+  y: number;
+  /** Flat indices (`r * cols + c`) of the unknown neighbours. */
+  cells: number[];
+  /** Mines among `cells` not yet accounted for by flags. */
+  mines: number;
+}
+
+interface Frontier {
+  cols: number;
+  constraints: Constraint[];
+  unknown: number[];
+  /** Mines left among `unknown`, or undefined when the total is not known. */
+  remaining?: number;
+}
+
+/**
+ * Solutions of one component, grouped by how many mines they place.
+ * `hits[j]` counts the solutions that put a mine on `cells[j]`.
+ */
+export type Solutions = Map<number, { count: number; hits: number[] }>;
+
+/** A group of frontier cells linked to each other through shared numbers. */
+export interface Component {
+  cells: number[];
+  constraints: Constraint[];
+  /** Null when the component was too large to enumerate. */
+  solutions: Solutions | null;
+}
+
+/**
+ * Collects the constraints of every revealed number. Returns null when the
+ * position is contradictory (e.g. a wrong flag next to a satisfied number),
+ * in which case no conclusion can be trusted.
+ */
+function buildFrontier(cells: KnownCell[][], totalMines: number | undefined, topology: Topology): Frontier | null {
+  const rows = cells.length;
+  const cols = cells[0].length;
+  const constraints: Constraint[] = [];
+  const unknown: number[] = [];
+  let flagged = 0;
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const cell = cells[r][c];
+      if (cell.isFlagged) { flagged++; continue; }
+      if (!cell.isRevealed) { unknown.push(r * cols + c); continue; }
+
+      let mines = cell.neighborCount;
+      const hidden: number[] = [];
+      getNeighbors(r, c, rows, cols, topology).forEach(n => {
+        const neighbor = cells[n.r][n.c];
+        if (neighbor.isFlagged) mines--;
+        else if (!neighbor.isRevealed) hidden.push(n.r * cols + n.c);
+      });
+
+      if (mines < 0 || mines > hidden.length) return null;
+      if (hidden.length > 0) constraints.push({ x: r, y: c, cells: hidden, mines });
+    }
+  }
+
+  const remaining = totalMines === undefined ? undefined : totalMines - flagged;
+  if (remaining !== undefined && (remaining < 0 || remaining > unknown.length)) return null;
+  return { cols, constraints, unknown, remaining };
+}
+
+class DeductionSet {
+  private found = new Map<number, Deduction>();
+
+  constructor(private cols: number) {}
+
+  add(index: number, type: 'SAFE' | 'MINE', rule: DeductionRule, premises: Constraint[]) {
+    if (this.found.has(index)) return;
+    this.found.set(index, {
+      x: Math.floor(index / this.cols),
+      y: index % this.cols,
+      type,
+      rule,
+      premises: premises.map(p => ({ x: p.x, y: p.y }))
+    });
+  }
+
+  get size() {
+    return this.found.size;
+  }
+
+  toArray(): Deduction[] {
+    return [...this.found.values()];
+  }
+}
+
+/** A number whose mines are all flagged, or whose hidden cells are all mines. */
+function applySingleRule(frontier: Frontier, out: DeductionSet) {
+  frontier.constraints.forEach(con => {
+    if (con.mines === 0) con.cells.forEach(i => out.add(i, 'SAFE', 'SINGLE', [con]));
+    else if (con.mines === con.cells.length) con.cells.forEach(i => out.add(i, 'MINE', 'SINGLE', [con]));
+  });
+}
+
+/**
+ * Pairwise reasoning between two overlapping numbers A and B: bounds on how
+ * many mines B allows in the shared cells fix the cells only A can see.
+ * When B lies entirely inside A this is the classic subset rule.
+ */
+function applyPairRule(frontier: Frontier, out: DeductionSet) {
+  const byCell = new Map<number, Constraint[]>();
+  frontier.constraints.forEach(con => con.cells.forEach(i => {
+    const list = byCell.get(i);
+    if (list) list.push(con);
+    else byCell.set(i, [con]);
+  }));
+
+  frontier.constraints.forEach(a => {
+    const partners = new Set<Constraint>();
+    a.cells.forEach(i => byCell.get(i)!.forEach(b => { if (b !== a) partners.add(b); }));
+
+    partners.forEach(b => {
+      const inB = new Set(b.cells);
+      const shared = a.cells.filter(i => inB.has(i));
+      const onlyA = a.cells.filter(i => !inB.has(i));
+      const onlyB = b.cells.length - shared.length;
+      if (onlyA.length === 0) return;
+
+      const maxShared = Math.min(shared.length, a.mines, b.mines);
+      const minShared = Math.max(0, b.mines - onlyB);
+      const rule: DeductionRule = onlyB === 0 ? 'SUBSET' : 'OVERLAP';
+
+      if (a.mines - minShared === 0) onlyA.forEach(i => out.add(i, 'SAFE', rule, [a, b]));
+      else if (a.mines - maxShared === onlyA.length) onlyA.forEach(i => out.add(i, 'MINE', rule, [a, b]));
+    });
+  });
+}
+
+/** Splits the frontier into groups of cells linked by shared numbers. */
+function splitComponents(frontier: Frontier): Component[] {
+  const owner = new Map<number, Component>();
+  const components: Component[] = [];
+
+  frontier.constraints.forEach(con => {
+    const linked = new Set<Component>();
+    con.cells.forEach(i => { const comp = owner.get(i); if (comp) linked.add(comp); });
+
+    const merged: Component = { cells: [], constraints: [con], solutions: null };
+    linked.forEach(comp => {
+      merged.constraints.push(...comp.constraints);
+      components.splice(components.indexOf(comp), 1);
+    });
+    merged.cells = [...new Set(merged.constraints.flatMap(c => c.cells))];
+    merged.cells.forEach(i => owner.set(i, merged));
+    components.push(merged);
+  });
+
+  return components;
+}
+
+/**
+ * Backtracks over every mine assignment of a component consistent with its
+ * numbers. Returns null when the component is too large to search; its
+ * cells are left in search order either way.
+ */
+function enumerateComponent(comp: Component): Solutions | null {
+  const cellCons = new Map<number, number[]>();
+  comp.constraints.forEach((con, ci) => con.cells.forEach(i => {
+    const list = cellCons.get(i);
+    if (list) list.push(ci);
+    else cellCons.set(i, [ci]);
+  }));
+
+  // Visit cells breadth-first so each number is closed off as early as possible.
+  const order: number[] = [];
+  const seen = new Set<number>();
+  comp.cells.forEach(start => {
+    if (seen.has(start)) return;
+    seen.add(start);
+    const queue = [start];
+    while (queue.length) {
+      const cell = queue.shift()!;
+      order.push(cell);
+      cellCons.get(cell)!.forEach(ci => comp.constraints[ci].cells.forEach(next => {
+        if (!seen.has(next)) { seen.add(next); queue.push(next); }
+      }));
+    }
+  });
+  comp.cells = order;
+  if (order.length > ENUMERATION_LIMIT) return null;
+
+  const need = comp.constraints.map(c => c.mines);
+  const left = comp.constraints.map(c => c.cells.length);
+  const assignment: boolean[] = new Array(order.length).fill(false);
+  const solutions: Solutions = new Map();
+  let nodes = 0;
+
+  const walk = (i: number, mines: number): boolean => {
+    if (++nodes > ENUMERATION_BUDGET) return false;
+    if (i === order.length) {
+      let entry = solutions.get(mines);
+      if (!entry) {
+        entry = { count: 0, hits: new Array(order.length).fill(0) };
+        solutions.set(mines, entry);
+      }
+      entry.count++;
+      assignment.forEach((isMine, j) => { if (isMine) entry!.hits[j]++; });
+      return true;
+    }
+
+    const touching = cellCons.get(order[i])!;
+    for (const isMine of [false, true]) {
+      let valid = true;
+      touching.forEach(ci => {
+        left[ci]--;
+        if (isMine) need[ci]--;
+        if (need[ci] < 0 || need[ci] > left[ci]) valid = false;
+      });
+      assignment[i] = isMine;
+      const completed = !valid || walk(i + 1, mines + (isMine ? 1 : 0));
+      touching.forEach(ci => {
+        left[ci]++;
+        if (isMine) need[ci]++;
+      });
+      assignment[i] = false;
+      if (!completed) return false;
+    }
+    return true;
+  };
+
+  return walk(0, 0) ? solutions : null;
+}
+
+/** Mine counts each component can take, given what is known about it. */
+function possibleCounts(comp: Component): number[] {
+  if (comp.solutions) return [...comp.solutions.keys()];
+  return Array.from({ length: comp.cells.length + 1 }, (_, k) => k);
+}
+
+/** Which totals in [0, limit] the given components can add up to. */
+function reachableSums(comps: Component[], limit: number): boolean[] {
+  let sums = new Array(limit + 1).fill(false);
+  sums[0] = true;
+  comps.forEach(comp => {
+    const next = new Array(limit + 1).fill(false);
+    const counts = possibleCounts(comp);
+    sums.forEach((ok, s) => {
+      if (!ok) return;
+      counts.forEach(k => { if (s + k <= limit) next[s + k] = true; });
+    });
+    sums = next;
+  });
+  return sums;
+}
+
+/** The frontier split into enumerated components plus the untouched interior. */
+export interface FrontierAnalysis {
+  cols: number;
+  components: Component[];
+  /** Hidden, unflagged cells that no revealed number touches. */
+  interior: number[];
+  /** Mines left among all hidden, unflagged cells, if the total is known. */
+  remaining?: number;
+}
+
+function analyze(frontier: Frontier): FrontierAnalysis | null {
+  const components = splitComponents(frontier);
+  components.forEach(comp => { comp.solutions = enumerateComponent(comp); });
+  if (components.some(comp => comp.solutions && comp.solutions.size === 0)) return null;
+
+  const frontierCells = new Set(components.flatMap(comp => comp.cells));
+  const interior = frontier.unknown.filter(i => !frontierCells.has(i));
+  return { cols: frontier.cols, components, interior, remaining: frontier.remaining };
+}
+
+/**
+ * Splits the visible position into frontier components and enumerates each
+ * small one. Returns null when the position is contradictory.
+ */
+export function analyzeFrontier(cells: KnownCell[][], totalMines?: number, topology: Topology = 'SQUARE'): FrontierAnalysis | null {
+  if (cells.length === 0 || cells[0].length === 0) return null;
+  const frontier = buildFrontier(cells, totalMines, topology);
+  return frontier && analyze(frontier);
+}
+
+/**
+ * Combines the enumerated components with the global mine count. A cell is
+ * decided when it takes the same value in every solution that can still be
+ * completed to the right total. Returns false when the position admits no
+ * solution at all.
+ */
+function applyEnumeration(frontier: Frontier, out: DeductionSet): boolean {
+  const analysis = analyze(frontier);
+  if (!analysis) return false;
+
+  const { components: comps, remaining, interior: interiorCells } = analysis;
+  const interior = interiorCells.length;
+
+  for (let index = 0; index < comps.length; index++) {
+    const comp = comps[index];
+    if (!comp.solutions) continue;
+
+    const others = remaining === undefined
+      ? null
+      : reachableSums(comps.filter((_, j) => j !== index), remaining);
+    const isFeasible = (k: number) => !others || others.some((ok, s) =>
+      ok && remaining! - k - s >= 0 && remaining! - k - s <= interior);
+
+    const all = [...comp.solutions.entries()];
+    const feasible = all.filter(([k]) => isFeasible(k));
+    if (feasible.length === 0) return false;
+
+    comp.cells.forEach((cell, j) => {
+      const decide = (entries: typeof all) => {
+        if (entries.every(([, e]) => e.hits[j] === 0)) return 'SAFE';
+        if (entries.every(([, e]) => e.hits[j] === e.count)) return 'MINE';
+        return null;
+      };
+      const local = decide(all);
+      const global = decide(feasible);
+      if (local) out.add(cell, local, 'ENUMERATION', comp.constraints);
+      else if (global) out.add(cell, global, 'GLOBAL', comp.constraints);
+    });
+  }
+
+  if (remaining !== undefined && interior > 0) {
+    const interiorCounts = reachableSums(comps, remaining)
+      .map((ok, s) => (ok ? remaining - s : -1))
+      .filter(t => t >= 0 && t <= interior);
+
+    if (interiorCounts.length === 0) return false;
+    if (interiorCounts.every(t => t === 0)) interiorCells.forEach(i => out.add(i, 'SAFE', 'GLOBAL', []));
+    else if (interiorCounts.every(t => t === interior)) interiorCells.forEach(i => out.add(i, 'MINE', 'GLOBAL', []));
+  }
+
+  return true;
+}
+
+/**
+ * Finds every cell that the easiest applicable technique can decide, trying
+ * single-number rules, then pairwise subset/overlap reasoning, then
+ * exhaustive enumeration of small frontier components combined with the
+ * total mine count. Flags are taken at face value.
+ */
+export function deduce(cells: KnownCell[][], totalMines?: number, topology: Topology = 'SQUARE'): Deduction[] {
+  if (cells.length === 0 || cells[0].length === 0) return [];
+  const frontier = buildFrontier(cells, totalMines, topology);
+  if (!frontier) return [];
+
+  const out = new DeductionSet(frontier.cols);
+
+  applySingleRule(frontier, out);
+  if (out.size > 0) return out.toArray();
+
+  applyPairRule(frontier, out);
+  if (out.size > 0) return out.toArray();
+
+  if (!applyEnumeration(frontier, out)) return [];
+  return out.toArray();
+}
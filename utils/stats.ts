@@ -0,0 +1,134 @@
+import { DifficultyConfig, DifficultyLevel, GameRecord, GameVariant, Topology } from '../types';
+import { TOPOLOGY_NAMES, VARIANT_NAMES } from '../constants';
+
+export interface DifficultyStats {
+  played: number;
+  won: number;
+  winRate: number;
+  currentStreak: number;
+  bestStreak: number;
+  /** Null until the first unassisted win on a generated board. */
+  bestTimeMs: number | null;
+  averageTimeMs: number | null;
+}
+
+export const LEADERBOARD_SIZE = 10;
+
+const byFinish = (a: GameRecord, b: GameRecord) => a.finishedAt.localeCompare(b.finishedAt);
+
+/** Wins that count for records: no undo was used, and the board was not imported with progress that cannot be checked. */
+const isCleanWin = (record: GameRecord) => record.outcome === 'WON' && !record.assisted && !record.imported;
+
+/** Rows, columns and mines of a custom board. */
+export type BoardSize = Pick<DifficultyConfig, 'rows' | 'cols' | 'mines'>;
+
+/** Custom boards of every size in the history, most played first. */
+export function customSizes(records: GameRecord[]): BoardSize[] {
+  const counts = new Map<string, { size: BoardSize; games: number }>();
+  records.filter(r => r.difficulty === DifficultyLevel.CUSTOM).forEach(({ rows, cols, mines }) => {
+    const key = `${rows}x${cols}-${mines}`;
+    const entry = counts.get(key) ?? { size: { rows, cols, mines }, games: 0 };
+    entry.games++;
+    counts.set(key, entry);
+  });
+  return [...counts.values()].sort((a, b) => b.games - a.games).map(e => e.size);
+}
+
+/**
+ * Times on different topologies, under different rules or on custom boards
+ * of different sizes are not comparable, so each keeps its own stats.
+ */
+const isBoard = (record: GameRecord, difficulty: DifficultyLevel, topology: Topology, variant: GameVariant, size?: BoardSize) =>
+  record.difficulty === difficulty && (record.topology ?? 'SQUARE') === topology && (record.variant ?? 'CLASSIC') === variant
+  && (difficulty !== DifficultyLevel.CUSTOM || !size || (record.rows === size.rows && record.cols === size.cols && record.mines === size.mines));
+
+/** `size` picks the custom board to count; without it every custom size counts together. */
+export function summarizeStats(
+  records: GameRecord[],
+  difficulty: DifficultyLevel,
+  topology: Topology = 'SQUARE',
+  variant: GameVariant = 'CLASSIC',
+  size?: BoardSize
+): DifficultyStats {
+  const games = records.filter(r => isBoard(r, difficulty, topology, variant, size)).sort(byFinish);
+  const won = games.filter(r => r.outcome === 'WON').length;
+
+  let streak = 0;
+  let bestStreak = 0;
+  games.forEach(r => {
+    streak = r.outcome === 'WON' ? streak + 1 : 0;
+    bestStreak = Math.max(bestStreak, streak);
+  });
+
+  const cleanTimes = games.filter(isCleanWin).map(r => r.timeMs);
+  return {
+    played: games.length,
+    won,
+    winRate: games.length ? won / games.length : 0,
+    currentStreak: streak,
+    bestStreak,
+    bestTimeMs: cleanTimes.length ? Math.min(...cleanTimes) : null,
+    averageTimeMs: cleanTimes.length ? cleanTimes.reduce((a, b) => a + b, 0) / cleanTimes.length : null
+  };
+}
+
+/** Fastest unassisted wins on generated boards for a difficulty, best first. */
+export function leaderboard(
+  records: GameRecord[],
+  difficulty: DifficultyLevel,
+  topology: Topology = 'SQUARE',
+  variant: GameVariant = 'CLASSIC',
+  size?: BoardSize
+): GameRecord[] {
+  return records
+    .filter(r => isBoard(r, difficulty, topology, variant, size) && isCleanWin(r))
+    .sort((a, b) => a.timeMs - b.timeMs)
+    .slice(0, LEADERBOARD_SIZE);
+}
+
+export function exportHistory(records: GameRecord[]): string {
+  return JSON.stringify({ version: 1, records }, null, 2);
+}
+
+const RECORD_FIELDS: [keyof GameRecord, string][] = [
+  ['id', 'string'], ['difficulty', 'string'], ['rows', 'number'], ['cols', 'number'], ['mines', 'number'],
+  ['outcome', 'string'], ['timeMs', 'number'], ['bbbv', 'number'], ['clicks', 'number'],
+  ['hintsUsed', 'number'], ['assisted', 'boolean'], ['daily', 'boolean'], ['seed', 'number'], ['finishedAt', 'string']
+];
+
+/**
+ * Parses a history file produced by `exportHistory`. Throws an Error with a
+ * message for the player when the file is not a valid history.
+ */
+export function parseHistory(text: string): GameRecord[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('文件不是有效的 JSON。');
+  }
+
+  const records = (data as { records?: unknown })?.records;
+  if (!Array.isArray(records)) throw new Error('文件中没有找到对局记录。');
+
+  records.forEach((record, i) => {
+    const invalid = RECORD_FIELDS.find(([field, type]) => typeof record?.[field] !== type);
+    if (invalid) throw new Error(`第 ${i + 1} 条记录的 ${invalid[0]} 字段无效。`);
+    if (!Object.values(DifficultyLevel).includes(record.difficulty)) throw new Error(`第 ${i + 1} 条记录的难度无效。`);
+    if (record.outcome !== 'WON' && record.outcome !== 'LOST') throw new Error(`第 ${i + 1} 条记录的结果无效。`);
+    if (record.topology !== undefined && !(record.topology in TOPOLOGY_NAMES)) throw new Error(`第 ${i + 1} 条记录的棋盘类型无效。`);
+    if (record.variant !== undefined && !(record.variant in VARIANT_NAMES)) throw new Error(`第 ${i + 1} 条记录的玩法无效。`);
+    if (record.imported !== undefined && typeof record.imported !== 'boolean') throw new Error(`第 ${i + 1} 条记录的 imported 字段无效。`);
+  });
+  return records as GameRecord[];
+}
+
+/** Adds imported records to the history, skipping ones already present. */
+export function mergeHistory(existing: GameRecord[], incoming: GameRecord[]): GameRecord[] {
+  const ids = new Set(existing.map(r => r.id));
+  return [...existing, ...incoming.filter(r => !ids.has(r.id))].sort(byFinish);
+}
+
+export function formatDuration(ms: number): string {
+  return `${(ms / 1000).toFixed(ms < 100000 ? 2 : 1)}s`;
+}
@@ -0,0 +1,32 @@
+/** Millisecond game clock that can be paused (on a loss) and resumed (after undo). */
+export class Stopwatch {
+  private elapsed = 0;
+  private since: number | null = null;
+
+  /** `now` is the clock read in milliseconds; pass a fake one to drive time by hand. */
+  constructor(private readonly now: () => number = () => performance.now()) {}
+
+  start(): void {
+    if (this.since === null) this.since = this.now();
+  }
+
+  stop(): void {
+    if (this.since === null) return;
+    this.elapsed += this.now() - this.since;
+    this.since = null;
+  }
+
+  /** Stops the clock at `elapsed` ms; a resumed game starts from its saved time. */
+  reset(elapsed = 0): void {
+    this.elapsed = elapsed;
+    this.since = null;
+  }
+
+  get running(): boolean {
+    return this.since !== null;
+  }
+
+  get ms(): number {
+    return this.elapsed + (this.since === null ? 0 : this.now() - this.since);
+  }
+}
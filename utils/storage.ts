@@ -0,0 +1,145 @@
+import { DailyRecord, DifficultyConfig, GameRecord, Puzzle, PuzzleProgress, SavedGame, Settings } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { validateDifficulty } from './gameLogic';
+
+const CUSTOM_DIFFICULTY_KEY = 'smart-minesweeper:custom-difficulty';
+const DAILY_RECORDS_KEY = 'smart-minesweeper:daily-records';
+const SETTINGS_KEY = 'smart-minesweeper:settings';
+const GAME_RECORDS_KEY = 'smart-minesweeper:game-records';
+const AUTOSAVE_KEY = 'smart-minesweeper:autosave';
+const SAVE_SLOTS_KEY = 'smart-minesweeper:save-slots';
+const PUZZLE_PROGRESS_KEY = 'smart-minesweeper:puzzle-progress';
+const CUSTOM_PUZZLES_KEY = 'smart-minesweeper:custom-puzzles';
+
+function read<T>(key: string): T | null {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+function write(key: string, value: unknown): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error("Storage Error:", error);
+  }
+}
+
+/** Null when nothing is stored, or when the stored board could not be generated. */
+export function loadCustomDifficulty(): DifficultyConfig | null {
+  const saved = read<DifficultyConfig>(CUSTOM_DIFFICULTY_KEY);
+  if (!saved || typeof saved.rows !== 'number' || typeof saved.cols !== 'number' || typeof saved.mines !== 'number') {
+    return null;
+  }
+  return validateDifficulty(saved.rows, saved.cols, saved.mines) ? null : saved;
+}
+
+export function saveCustomDifficulty(config: DifficultyConfig): void {
+  write(CUSTOM_DIFFICULTY_KEY, config);
+}
+
+export function loadDailyRecord(key: string): DailyRecord | null {
+  return read<Record<string, DailyRecord>>(DAILY_RECORDS_KEY)?.[key] ?? null;
+}
+
+export function saveDailyRecord(key: string, record: DailyRecord): void {
+  const records = read<Record<string, DailyRecord>>(DAILY_RECORDS_KEY) ?? {};
+  records[key] = record;
+  write(DAILY_RECORDS_KEY, records);
+}
+
+export function loadSettings(): Settings {
+  return { ...DEFAULT_SETTINGS, ...read<Partial<Settings>>(SETTINGS_KEY) };
+}
+
+export function saveSettings(settings: Settings): void {
+  write(SETTINGS_KEY, settings);
+}
+
+export function loadGameRecords(): GameRecord[] {
+  return read<GameRecord[]>(GAME_RECORDS_KEY) ?? [];
+}
+
+export function saveGameRecords(records: GameRecord[]): void {
+  write(GAME_RECORDS_KEY, records);
+}
+
+/** Inserts the record, or replaces the one with the same id (a loss undone and replayed). */
+export function upsertGameRecord(record: GameRecord): GameRecord[] {
+  const records = loadGameRecords().filter(r => r.id !== record.id);
+  records.push(record);
+  saveGameRecords(records);
+  return records;
+}
+
+export function loadAutosave(): SavedGame | null {
+  return read<SavedGame>(AUTOSAVE_KEY);
+}
+
+export function saveAutosave(game: SavedGame): void {
+  write(AUTOSAVE_KEY, game);
+}
+
+export function clearAutosave(): void {
+  try {
+    localStorage.removeItem(AUTOSAVE_KEY);
+  } catch (error) {
+    console.error("Storage Error:", error);
+  }
+}
+
+export function loadSaveSlots(): SavedGame[] {
+  return read<SavedGame[]>(SAVE_SLOTS_KEY) ?? [];
+}
+
+/** Stores the game under its name, replacing a slot of the same name. Returns all slots. */
+export function upsertSaveSlot(game: SavedGame): SavedGame[] {
+  const slots = loadSaveSlots().filter(s => s.name !== game.name);
+  slots.push(game);
+  write(SAVE_SLOTS_KEY, slots);
+  return slots;
+}
+
+export function deleteSaveSlot(name: string): SavedGame[] {
+  const slots = loadSaveSlots().filter(s => s.name !== name);
+  write(SAVE_SLOTS_KEY, slots);
+  return slots;
+}
+
+export function loadPuzzleProgress(): Record<string, PuzzleProgress> {
+  return read<Record<string, PuzzleProgress>>(PUZZLE_PROGRESS_KEY) ?? {};
+}
+
+/** Records a solve, keeping the best time and fewest hints seen so far. Returns all progress. */
+export function recordPuzzleSolve(id: string, timeMs: number, hintsUsed: number): Record<string, PuzzleProgress> {
+  const progress = loadPuzzleProgress();
+  const previous = progress[id];
+  progress[id] = {
+    solvedAt: new Date().toISOString(),
+    bestTimeMs: previous ? Math.min(previous.bestTimeMs, timeMs) : timeMs,
+    hintsUsed: previous ? Math.min(previous.hintsUsed, hintsUsed) : hintsUsed
+  };
+  write(PUZZLE_PROGRESS_KEY, progress);
+  return progress;
+}
+
+export function loadCustomPuzzles(): Puzzle[] {
+  return read<Puzzle[]>(CUSTOM_PUZZLES_KEY) ?? [];
+}
+
+/** Stores the puzzle under its id, replacing an older version. Returns all custom puzzles. */
+export function upsertCustomPuzzle(puzzle: Puzzle): Puzzle[] {
+  const puzzles = loadCustomPuzzles().filter(p => p.id !== puzzle.id);
+  puzzles.push(puzzle);
+  write(CUSTOM_PUZZLES_KEY, puzzles);
+  return puzzles;
+}
+
+export function deleteCustomPuzzle(id: string): Puzzle[] {
+  const puzzles = loadCustomPuzzles().filter(p => p.id !== id);
+  write(CUSTOM_PUZZLES_KEY, puzzles);
+  return puzzles;
+}
@@ -0,0 +1,51 @@
+import { AiHint, AiSuggestion, Board, Topology } from '../types';
+import { computeMineProbabilities } from './probability';
+import { deduce } from './solver';
+
+/** Probabilities this close to 0 or 1 count as certain. */
+const EPSILON = 1e-9;
+
+export type Verification = { hint: AiHint } | { rejected: string };
+
+/**
+ * Checks a language model's suggestion against the solver's deductions, then
+ * against the mine probabilities. A move the solver proves right is VERIFIED,
+ * a possible but unproven one is a GUESS, and one that is impossible or
+ * provably wrong is rejected with the reason why.
+ */
+export function verifySuggestion(board: Board, totalMines: number, suggestion: AiSuggestion, topology: Topology = 'SQUARE'): Verification {
+  const x = suggestion.row - 1;
+  const y = suggestion.col - 1;
+  const cell = board[x]?.[y];
+  if (!cell) return { rejected: `AI 指向了棋盘外的格子（第${suggestion.row}行第${suggestion.col}列）。` };
+  if (cell.isRevealed) return { rejected: `AI 指向的第${suggestion.row}行第${suggestion.col}列已经揭开了。` };
+  if (cell.isFlagged) return { rejected: `AI 指向的第${suggestion.row}行第${suggestion.col}列已经插了旗。` };
+
+  const proven = (isMine: boolean): Verification => isMine === (suggestion.action === 'REVEAL')
+    ? {
+      rejected: suggestion.action === 'REVEAL'
+        ? `AI 建议揭开第${suggestion.row}行第${suggestion.col}列，但求解器证明那里必然是雷，已拦截。`
+        : `AI 建议在第${suggestion.row}行第${suggestion.col}列插旗，但求解器证明那里必然安全，已拦截。`
+    }
+    : { hint: { x, y, action: suggestion.action, reasoning: suggestion.reasoning, verdict: 'VERIFIED', probability: isMine ? 1 : 0 } };
+
+  // The solver's deductions hold even where the probabilities are only estimated
+  const deduction = deduce(board, totalMines, topology).find(step => step.x === x && step.y === y);
+  if (deduction) return proven(deduction.type === 'MINE');
+
+  const probabilities = computeMineProbabilities(board, totalMines, topology);
+  const p = probabilities?.grid[x][y];
+  if (!probabilities || p == null) return { rejected: '当前局面自相矛盾，无法验证 AI 的建议。' };
+  if (probabilities.exact && (p < EPSILON || p > 1 - EPSILON)) return proven(p > 0.5);
+
+  return {
+    hint: {
+      x,
+      y,
+      action: suggestion.action,
+      reasoning: suggestion.reasoning,
+      verdict: 'GUESS',
+      probability: p
+    }
+  };
+}
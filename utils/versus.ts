@@ -0,0 +1,76 @@
+import { Board, GameStatus, Topology } from '../types';
+import { floodFill } from './gameLogic';
+import { cloneBoard } from './replay';
+
+/** Player one or player two, as an index into per-player arrays. */
+export type Player = 0 | 1;
+
+/** A finished game: the winner, or DRAW. */
+export type VersusResult = Player | 'DRAW';
+
+/**
+ * Race outcome from both players' game status: the first to clear the board
+ * wins, and stepping on a mine hands the race to the other player. Null
+ * while both are still playing.
+ */
+export function raceResult(statuses: [GameStatus, GameStatus]): VersusResult | null {
+  const [a, b] = statuses;
+  const over = (status: GameStatus) => status === GameStatus.WON || status === GameStatus.LOST;
+  if (!over(a) && !over(b)) return null;
+  // Both finishing on the same update can only happen to moves made in the same instant
+  if (a === b) return 'DRAW';
+  return a === GameStatus.WON || b === GameStatus.LOST ? 0 : 1;
+}
+
+/**
+ * Flags: players take turns on one board. Finding a mine scores a point and
+ * keeps the turn; revealing a safe cell passes it. The mines are counted,
+ * not avoided.
+ */
+export interface FlagsGame {
+  board: Board;
+  turn: Player;
+  scores: [number, number];
+  /** Who found each mine, keyed by `row * cols + col`. */
+  finders: Map<number, Player>;
+  result: VersusResult | null;
+}
+
+/** Points that settle a Flags game: more than half of the mines. */
+export function flagsTarget(mines: number): number {
+  return Math.floor(mines / 2) + 1;
+}
+
+/** A Flags game on `board` with the opening at the start cell already revealed. */
+export function startFlags(board: Board, startX: number, startY: number, topology: Topology = 'SQUARE'): FlagsGame {
+  const next = cloneBoard(board);
+  floodFill(next, startX, startY, topology);
+  return { board: next, turn: 0, scores: [0, 0], finders: new Map(), result: null };
+}
+
+/**
+ * The player to move opens a cell. A mine is marked with a flag and scores;
+ * the game ends once a player holds more than half of the mines, or when
+ * every mine is found. Moves out of turn order are the caller's business.
+ */
+export function flagsReveal(game: FlagsGame, x: number, y: number, topology: Topology = 'SQUARE'): FlagsGame {
+  const cell = game.board[x]?.[y];
+  if (game.result !== null || !cell || cell.isRevealed || cell.isFlagged) return game;
+
+  const board = cloneBoard(game.board);
+  if (!cell.isMine) {
+    floodFill(board, x, y, topology);
+    return { ...game, board, turn: game.turn === 0 ? 1 : 0 };
+  }
+
+  board[x][y].isFlagged = true;
+  const scores: [number, number] = [...game.scores];
+  scores[game.turn]++;
+  const finders = new Map(game.finders).set(x * board[0].length + y, game.turn);
+
+  const mines = board.reduce((sum, row) => sum + row.filter(c => c.isMine).length, 0);
+  let result: VersusResult | null = null;
+  if (scores[game.turn] >= flagsTarget(mines)) result = game.turn;
+  else if (finders.size === mines) result = scores[0] === scores[1] ? 'DRAW' : scores[0] > scores[1] ? 0 : 1;
+  return { board, turn: game.turn, scores, finders, result };
+}
@@ -0,0 +1,33 @@
+import { Board, LogicRating, Topology } from '../types';
+import { generateGuaranteedBoard } from '../utils/gameLogic';
+import { createRandom } from '../utils/random';
+
+export interface GenerateRequest {
+  rows: number;
+  cols: number;
+  mines: number;
+  startX: number;
+  startY: number;
+  seed: number;
+  topology: Topology;
+  rating?: LogicRating;
+}
+
+export type GenerateResponse =
+  | { type: 'progress'; attempt: number; maxAttempts: number }
+  | { type: 'done'; board: Board | null };
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<GenerateRequest>) => {
+  const { rows, cols, mines, startX, startY, seed, topology, rating } = e.data;
+  const post = (message: GenerateResponse) => ctx.postMessage(message);
+
+  const board = generateGuaranteedBoard(rows, cols, mines, startX, startY, {
+    random: createRandom(seed),
+    topology,
+    rating,
+    onProgress: (attempt, maxAttempts) => post({ type: 'progress', attempt, maxAttempts })
+  });
+  post({ type: 'done', board });
+};